@@ -4,5 +4,7 @@ module.exports = {
   transform: {
     '^.+\\.tsx?$': 'ts-jest'
   },
-  moduleFileExtensions: ['ts', 'tsx', 'js', 'jsx', 'json', 'node']
+  moduleFileExtensions: ['ts', 'tsx', 'js', 'jsx', 'json', 'node'],
+  // Fixture servers and snapshots live next to the tests but are not tests themselves
+  testPathIgnorePatterns: ['/node_modules/', '/__tests__/fixtures/']
 };
\ No newline at end of file
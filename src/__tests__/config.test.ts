@@ -0,0 +1,103 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { ConfigError, configPath, loadConfig, setConfigValue } from '../config'
+
+describe('config', () => {
+  let dir: string
+  let file: string
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rednote-config-'))
+    file = path.join(dir, 'config.json')
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  test('没有配置文件时使用默认值', () => {
+    const config = loadConfig({ file, env: {}, argv: [] })
+    expect(config.timeouts).toEqual({ page: 30, login: 120, loginRetries: 3, task: 300, shortLink: 10 })
+    expect(config.logging.level).toBe('info')
+    expect(config.http.token).toBeUndefined()
+  })
+
+  test('命令行参数优先于环境变量，环境变量优先于配置文件', () => {
+    fs.writeFileSync(
+      file,
+      JSON.stringify({ logging: { level: 'warn' }, session: { maxConcurrency: 3 }, timeouts: { page: 45 } })
+    )
+    const config = loadConfig({
+      file,
+      env: { REDNOTE_LOG_LEVEL: 'error', REDNOTE_MAX_CONCURRENCY: '4', REDNOTE_HEADLESS: 'false' },
+      argv: ['--stdio', '--log-level', 'debug', '--media-dir=/tmp/media']
+    })
+
+    expect(config.logging.level).toBe('debug')
+    expect(config.session.maxConcurrency).toBe(4)
+    expect(config.timeouts.page).toBe(45)
+    expect(config.browser.headless).toBe(false)
+    expect(config.paths.mediaDir).toBe('/tmp/media')
+  })
+
+  test('配置文件路径可以通过 --config 或 REDNOTE_CONFIG 指定', () => {
+    expect(configPath({ REDNOTE_CONFIG: '/etc/rednote.json' }, ['--config', file])).toBe(file)
+    expect(configPath({ REDNOTE_CONFIG: '/etc/rednote.json' }, [])).toBe('/etc/rednote.json')
+  })
+
+  test.each([
+    [{ timeouts: { page: -1 } }, 'timeouts.page'],
+    [{ logging: { level: 'verbose' } }, 'logging.level'],
+    [{ timeouts: { pageTimeout: 30 } }, 'pageTimeout']
+  ])('无效的配置文件报出具体的字段 %j', (content, field) => {
+    fs.writeFileSync(file, JSON.stringify(content))
+    expect(() => loadConfig({ file, env: {}, argv: [] })).toThrow(ConfigError)
+    expect(() => loadConfig({ file, env: {}, argv: [] })).toThrow(field)
+  })
+
+  test('无效的环境变量会报错', () => {
+    expect(() => loadConfig({ file, env: { REDNOTE_PAGE_TIMEOUT: 'soon' }, argv: [] })).toThrow(
+      'timeouts.page must be a number, got "soon"'
+    )
+  })
+
+  test('浏览器启动参数可以写成空格分隔或 JSON 数组', () => {
+    expect(
+      loadConfig({ file, env: { REDNOTE_BROWSER_ARGS: '--no-sandbox  --disable-gpu' }, argv: [] }).browser.args
+    ).toEqual(['--no-sandbox', '--disable-gpu'])
+    expect(
+      loadConfig({ file, env: { REDNOTE_BROWSER_ARGS: '["--window-name=red note"]' }, argv: [] }).browser.args
+    ).toEqual(['--window-name=red note'])
+
+    setConfigValue(file, 'browser.viewport', '1280x800')
+    expect(loadConfig({ file, env: {}, argv: [] }).browser.viewport).toBe('1280x800')
+    expect(() => setConfigValue(file, 'browser.viewport', 'wide')).toThrow('browser.viewport')
+  })
+
+  test('config set 只修改指定的字段并校验', () => {
+    fs.writeFileSync(file, JSON.stringify({ http: { token: 'secret' } }))
+
+    setConfigValue(file, 'timeouts.page', '60')
+    setConfigValue(file, 'browser.headless', 'false')
+    expect(JSON.parse(fs.readFileSync(file, 'utf-8'))).toEqual({
+      http: { token: 'secret' },
+      timeouts: { page: 60 },
+      browser: { headless: false }
+    })
+
+    expect(() => setConfigValue(file, 'session.maxConcurrency', '0')).toThrow('session.maxConcurrency')
+    expect(() => setConfigValue(file, 'timeouts', '60')).toThrow('Unknown config key "timeouts"')
+    expect(JSON.parse(fs.readFileSync(file, 'utf-8')).session).toBeUndefined()
+  })
+
+  test('config set 写入的文件只有所有者可以读写', () => {
+    fs.writeFileSync(file, '{}', { mode: 0o644 })
+    setConfigValue(file, 'http.token', 'secret')
+    expect(fs.statSync(file).mode & 0o777).toBe(0o600)
+
+    const created = path.join(dir, 'nested', 'config.json')
+    setConfigValue(created, 'browser.proxyPassword', 'secret')
+    expect(fs.statSync(created).mode & 0o777).toBe(0o600)
+  })
+})
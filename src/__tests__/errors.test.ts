@@ -0,0 +1,54 @@
+import {
+  BrowserNotInstalledError,
+  BusyError,
+  CookieExpiredError,
+  CookieKeyError,
+  describeError,
+  NoteNotFoundError,
+  NoteRequiresLoginError,
+  NotLoggedInError,
+  RiskControlError,
+  SelectorMissingError,
+  TimeoutError
+} from '../errors'
+
+function playwrightError(name: string, message: string): Error {
+  const error = new Error(message)
+  error.name = name
+  return error
+}
+
+describe('describeError', () => {
+  test.each([
+    [new NotLoggedInError(), 'NOT_LOGGED_IN', 'login'],
+    [new CookieExpiredError(), 'COOKIE_EXPIRED', 'login'],
+    [new NoteNotFoundError('64b8c1f2000000001e03a1b1'), 'NOTE_NOT_FOUND', '不要重试'],
+    [new NoteRequiresLoginError('64b8c1f2000000001e03a1b1'), 'NOTE_REQUIRES_LOGIN', 'xsec_token'],
+    [new RiskControlError('captcha', 'Captcha shown'), 'CAPTCHA', '验证'],
+    [new RiskControlError('verification', 'Verify account'), 'VERIFICATION_REQUIRED', '验证'],
+    [new RiskControlError('rate_limit', 'Too frequent'), 'RATE_LIMITED', '冷却'],
+    [new SelectorMissingError('note.title', ['#detail-title']), 'SELECTOR_MISSING', 'selectors.json'],
+    [new TimeoutError('Task timed out'), 'TIMEOUT', '稍后重试'],
+    [new BrowserNotInstalledError('Chromium is not installed'), 'BROWSER_NOT_INSTALLED', 'playwright install'],
+    [new CookieKeyError('Cannot decrypt the saved cookies'), 'COOKIE_KEY', 'REDNOTE_COOKIE_KEY'],
+    [new BusyError('Server is busy'), 'BUSY', '等待'],
+    [playwrightError('TimeoutError', 'page.waitForSelector: Timeout 30000ms exceeded.'), 'TIMEOUT', '稍后重试'],
+    [
+      new Error("browserType.launch: Executable doesn't exist at /root/.cache/ms-playwright/chromium-1161/chrome"),
+      'BROWSER_NOT_INSTALLED',
+      'playwright install'
+    ],
+    [new Error('Invalid search cursor'), 'UNKNOWN', '检查参数'],
+    ['plain string', 'UNKNOWN', '检查参数']
+  ])('%p 应该对应 %s', (error, code, suggestion) => {
+    const description = describeError(error)
+    expect(description.code).toBe(code)
+    expect(description.suggestion).toContain(suggestion)
+    expect(description.message).toBe(error instanceof Error ? error.message : error)
+  })
+
+  test('未登录的两种错误都应该保留 Not logged in 的提示', () => {
+    expect(new NotLoggedInError().message).toContain('Not logged in')
+    expect(new CookieExpiredError().message).toContain('Not logged in')
+  })
+})
@@ -0,0 +1,110 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js'
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js'
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { z } from 'zod'
+import { HttpServer, startHttpServer } from '../httpServer'
+
+const TOKEN = 'team-token'
+
+function createServer(): McpServer {
+  const server = new McpServer({ name: 'test', version: '1.0.0' })
+  server.tool('echo', 'Echo the text back', { text: z.string() }, async ({ text }) => ({
+    content: [{ type: 'text', text }]
+  }))
+  return server
+}
+
+describe('startHttpServer', () => {
+  let httpServer: HttpServer
+  const clients: Client[] = []
+
+  beforeEach(async () => {
+    httpServer = await startHttpServer({
+      port: 0,
+      token: TOKEN,
+      createServer,
+      version: '1.0.0',
+      health: () => ({ accounts: ['default'] })
+    })
+  })
+
+  afterEach(async () => {
+    await Promise.all(clients.splice(0).map((client) => client.close()))
+    await httpServer.close()
+  })
+
+  async function connect(transport: StreamableHTTPClientTransport | SSEClientTransport): Promise<Client> {
+    const client = new Client({ name: 'client', version: '1.0.0' })
+    await client.connect(transport)
+    clients.push(client)
+    return client
+  }
+
+  const auth = { headers: { Authorization: `Bearer ${TOKEN}` } }
+
+  test('health 不需要 token，但没有 token 时只返回状态和版本', async () => {
+    const response = await fetch(`${httpServer.url}/health`)
+    expect(response.status).toBe(200)
+    await expect(response.json()).resolves.toEqual({ status: 'ok', version: '1.0.0' })
+  })
+
+  test('带 token 访问 health 时返回会话和账号信息', async () => {
+    const response = await fetch(`${httpServer.url}/health`, auth)
+    await expect(response.json()).resolves.toEqual({
+      status: 'ok',
+      version: '1.0.0',
+      sessions: 0,
+      accounts: ['default']
+    })
+  })
+
+  test.each([undefined, 'Bearer wrong-token'])('缺少或错误的 token 返回 401: %p', async (authorization) => {
+    const response = await fetch(`${httpServer.url}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(authorization ? { Authorization: authorization } : {}) },
+      body: '{}'
+    })
+    expect(response.status).toBe(401)
+  })
+
+  test('多个 Streamable HTTP 客户端各自拥有会话', async () => {
+    const first = await connect(
+      new StreamableHTTPClientTransport(new URL(`${httpServer.url}/mcp`), { requestInit: auth })
+    )
+    const second = await connect(
+      new StreamableHTTPClientTransport(new URL(`${httpServer.url}/mcp`), { requestInit: auth })
+    )
+
+    await expect(first.callTool({ name: 'echo', arguments: { text: '野餐' } })).resolves.toMatchObject({
+      content: [{ type: 'text', text: '野餐' }]
+    })
+    await expect(second.callTool({ name: 'echo', arguments: { text: '露营' } })).resolves.toMatchObject({
+      content: [{ type: 'text', text: '露营' }]
+    })
+    expect(httpServer.sessions).toBe(2)
+  })
+
+  test('旧客户端可以使用 SSE', async () => {
+    const client = await connect(
+      new SSEClientTransport(new URL(`${httpServer.url}/sse`), {
+        requestInit: auth,
+        eventSourceInit: {
+          fetch: (url, init) => fetch(url, { ...init, headers: { ...init?.headers, ...auth.headers } })
+        }
+      })
+    )
+    await expect(client.callTool({ name: 'echo', arguments: { text: '骑行' } })).resolves.toMatchObject({
+      content: [{ type: 'text', text: '骑行' }]
+    })
+  })
+
+  test('未知会话返回 404', async () => {
+    const response = await fetch(`${httpServer.url}/mcp`, {
+      method: 'POST',
+      headers: { ...auth.headers, 'Content-Type': 'application/json', 'mcp-session-id': 'gone' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' })
+    })
+    expect(response.status).toBe(404)
+  })
+})
@@ -0,0 +1,41 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {decrypt, encrypt, isEncrypted, readCookieKey} from '../cookieCrypto';
+import {CookieKeyError} from '../../errors';
+
+describe('cookieCrypto', () => {
+  test('加密后可以用同一个密钥解密，密文中不含明文', () => {
+    const content = encrypt('[{"name":"web_session","value":"secret"}]', 'passphrase');
+    expect(content).not.toContain('secret');
+    expect(isEncrypted(content)).toBe(true);
+    expect(decrypt(content, 'passphrase')).toBe('[{"name":"web_session","value":"secret"}]');
+  });
+
+  test('密钥不对或内容被改动时解密失败', () => {
+    const content = encrypt('[]', 'passphrase');
+    expect(() => decrypt(content, 'other')).toThrow(CookieKeyError);
+
+    const tampered = JSON.parse(content);
+    tampered.data = Buffer.from('x').toString('base64');
+    expect(() => decrypt(JSON.stringify(tampered), 'passphrase')).toThrow('key does not match');
+  });
+
+  test.each(['[]', '{"cookies":[],"origins":[]}', 'not json'])('明文 %p 不算加密内容', content => {
+    expect(isEncrypted(content)).toBe(false);
+  });
+
+  test('环境变量中的密钥优先于密钥文件', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rednote-key-'));
+    try {
+      const keyFile = path.join(dir, 'cookie.key');
+      fs.writeFileSync(keyFile, 'from-file\n');
+      expect(readCookieKey(keyFile, {})).toBe('from-file');
+      expect(readCookieKey(keyFile, {REDNOTE_COOKIE_KEY: 'from-env'})).toBe('from-env');
+      expect(readCookieKey(undefined, {})).toBeUndefined();
+      expect(() => readCookieKey(path.join(dir, 'missing.key'), {})).toThrow('Cannot read the cookie key file');
+    } finally {
+      fs.rmSync(dir, {recursive: true, force: true});
+    }
+  });
+});
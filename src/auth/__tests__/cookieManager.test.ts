@@ -0,0 +1,111 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {Cookie} from 'playwright';
+import {CookieManager, STORAGE_STATE_FILE} from '../cookieManager';
+import {isEncrypted} from '../cookieCrypto';
+import {CookieKeyError} from '../../errors';
+
+const cookie: Cookie = {
+  name: 'web_session',
+  value: 'abc',
+  domain: '.xiaohongshu.com',
+  path: '/',
+  expires: -1,
+  httpOnly: true,
+  secure: true,
+  sameSite: 'Lax',
+};
+
+const state = {
+  cookies: [cookie],
+  origins: [{origin: 'https://www.xiaohongshu.com', localStorage: [{name: 'b1', value: 'x'}]}],
+};
+
+describe('CookieManager', () => {
+  let dir: string;
+  let cookiePath: string;
+  let statePath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rednote-cookies-'));
+    cookiePath = path.join(dir, 'cookies.json');
+    statePath = path.join(dir, STORAGE_STATE_FILE);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, {recursive: true, force: true});
+  });
+
+  test('没有保存过时返回空的 storage state', async () => {
+    const manager = new CookieManager(cookiePath, {storageState: true});
+    expect(await manager.loadStorageState()).toEqual({cookies: [], origins: []});
+    expect(await manager.loadCookies()).toEqual([]);
+  });
+
+  test('storage state 模式保存 Cookie 和 localStorage，并替换旧的 cookies.json', async () => {
+    fs.writeFileSync(cookiePath, JSON.stringify([{...cookie, value: 'old'}]));
+    const manager = new CookieManager(cookiePath, {storageState: true});
+
+    await manager.saveStorageState(state);
+    expect(fs.existsSync(cookiePath)).toBe(false);
+    expect(await manager.loadStorageState()).toEqual(state);
+    expect(await manager.loadCookies()).toEqual([cookie]);
+  });
+
+  test('仍能读取升级前保存的 cookies.json', async () => {
+    fs.writeFileSync(cookiePath, JSON.stringify([cookie]));
+    const manager = new CookieManager(cookiePath, {storageState: true});
+    expect(await manager.loadStorageState()).toEqual({cookies: [cookie], origins: []});
+  });
+
+  test('cookies 模式只保存 Cookie', async () => {
+    const manager = new CookieManager(cookiePath);
+    await manager.saveStorageState(state);
+    expect(fs.existsSync(statePath)).toBe(false);
+    expect(JSON.parse(fs.readFileSync(cookiePath, 'utf-8'))).toEqual([cookie]);
+  });
+
+  test('保存的文件只有所有者可以读写', async () => {
+    fs.writeFileSync(cookiePath, JSON.stringify([cookie]), {mode: 0o644});
+    const manager = new CookieManager(cookiePath, {storageState: true});
+
+    await manager.loadCookies();
+    expect(fs.statSync(cookiePath).mode & 0o777).toBe(0o600);
+
+    await manager.saveStorageState(state);
+    expect(fs.statSync(statePath).mode & 0o777).toBe(0o600);
+  });
+
+  test('设置密钥后加密保存，没有密钥时无法读取', async () => {
+    const manager = new CookieManager(cookiePath, {storageState: true, encryptionKey: 'passphrase'});
+    await manager.saveStorageState(state);
+
+    const content = fs.readFileSync(statePath, 'utf-8');
+    expect(isEncrypted(content)).toBe(true);
+    expect(content).not.toContain('web_session');
+    expect(await manager.loadStorageState()).toEqual(state);
+
+    await expect(new CookieManager(cookiePath, {storageState: true}).loadCookies()).rejects.toThrow(CookieKeyError);
+    await expect(
+      new CookieManager(cookiePath, {storageState: true, encryptionKey: 'other'}).loadCookies()
+    ).rejects.toThrow(CookieKeyError);
+  });
+
+  test('设置密钥后读取明文文件时会把它加密', async () => {
+    fs.writeFileSync(cookiePath, JSON.stringify([cookie]));
+    const manager = new CookieManager(cookiePath, {storageState: true, encryptionKey: 'passphrase'});
+
+    expect(await manager.loadCookies()).toEqual([cookie]);
+    expect(isEncrypted(fs.readFileSync(cookiePath, 'utf-8'))).toBe(true);
+    expect(await manager.loadCookies()).toEqual([cookie]);
+  });
+
+  test('clearCookies 删除两种文件', async () => {
+    fs.writeFileSync(cookiePath, '[]');
+    fs.writeFileSync(statePath, JSON.stringify(state));
+    await new CookieManager(cookiePath, {storageState: true}).clearCookies();
+    expect(fs.existsSync(cookiePath)).toBe(false);
+    expect(fs.existsSync(statePath)).toBe(false);
+  });
+});
@@ -0,0 +1,81 @@
+import {Cookie} from 'playwright';
+import {describeLoginStatus} from '../loginStatus';
+
+const NOW = Date.parse('2025-03-10T00:00:00.000Z');
+const DAY = 24 * 60 * 60 * 1000;
+
+function cookie(name: string, expires: number): Cookie {
+  return {
+    name,
+    value: 'value',
+    domain: '.xiaohongshu.com',
+    path: '/',
+    expires: expires > 0 ? expires / 1000 : expires,
+    httpOnly: true,
+    secure: true,
+    sameSite: 'Lax',
+  };
+}
+
+describe('describeLoginStatus', () => {
+  test('没有 Cookie 时提示登录', () => {
+    expect(describeLoginStatus([], null, NOW)).toMatchObject({
+      hasCookies: false,
+      sessionCookies: [],
+      expired: true,
+      expiringSoon: false,
+      warning: 'No saved cookies, log in first',
+    });
+  });
+
+  test('报告关键 Cookie 中最早的过期时间', () => {
+    const status = describeLoginStatus(
+      [cookie('web_session', NOW + 30 * DAY), cookie('a1', NOW + 300 * DAY), cookie('webId', NOW + DAY)],
+      {verifiedAt: '2025-03-09T12:00:00.000Z', userId: '5f0e1a2b000000000101c3d4', nickname: '野餐小能手'},
+      NOW
+    );
+
+    expect(status).toEqual({
+      hasCookies: true,
+      sessionCookies: [
+        {name: 'web_session', expires: '2025-04-09T00:00:00.000Z', expired: false},
+        {name: 'a1', expires: '2026-01-04T00:00:00.000Z', expired: false},
+      ],
+      expiresAt: '2025-04-09T00:00:00.000Z',
+      expired: false,
+      expiringSoon: false,
+      user: {userId: '5f0e1a2b000000000101c3d4', nickname: '野餐小能手', redId: undefined},
+      lastVerifiedAt: '2025-03-09T12:00:00.000Z',
+      warning: undefined,
+    });
+  });
+
+  test('快要过期时提前提醒', () => {
+    const status = describeLoginStatus([cookie('web_session', NOW + DAY)], null, NOW, 3 * DAY);
+    expect(status.expiringSoon).toBe(true);
+    expect(status.warning).toBe('The login expires in about 24 hours (2025-03-11T00:00:00.000Z), log in again soon');
+  });
+
+  test('过期或缺少 web_session 时视为已过期', () => {
+    expect(describeLoginStatus([cookie('web_session', NOW - DAY)], null, NOW)).toMatchObject({
+      expired: true,
+      expiringSoon: false,
+      warning: 'The login expired at 2025-03-09T00:00:00.000Z, log in again',
+    });
+    expect(describeLoginStatus([cookie('a1', NOW + DAY)], null, NOW)).toMatchObject({
+      expired: true,
+      warning: 'The saved cookies hold no web_session, log in again',
+    });
+  });
+
+  test('会话 Cookie 没有过期时间', () => {
+    const status = describeLoginStatus([cookie('web_session', -1)], null, NOW);
+    expect(status).toMatchObject({
+      sessionCookies: [{name: 'web_session', expires: undefined, expired: false}],
+      expiresAt: undefined,
+      expired: false,
+      expiringSoon: false,
+      warning: undefined,
+    });
+  });
+});
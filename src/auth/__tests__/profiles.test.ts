@@ -0,0 +1,52 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {listProfiles, profileCookiePath, profileDir, profileExists, validateProfileName} from '../profiles';
+
+describe('profiles', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'rednote-profiles-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, {recursive: true, force: true});
+  });
+
+  function login(name: string) {
+    const cookiePath = profileCookiePath(name, root);
+    fs.mkdirSync(path.dirname(cookiePath), {recursive: true});
+    fs.writeFileSync(cookiePath, '[]');
+  }
+
+  test('默认账号沿用原来的 cookies.json', () => {
+    expect(profileDir('default', root)).toBe(root);
+    expect(profileCookiePath('default', root)).toBe(path.join(root, 'cookies.json'));
+    expect(profileCookiePath('work', root)).toBe(path.join(root, 'profiles', 'work', 'cookies.json'));
+  });
+
+  test.each(['', '../evil', 'a b', 'x'.repeat(33)])('拒绝不安全的账号名 %p', name => {
+    expect(() => validateProfileName(name)).toThrow('Invalid account name');
+  });
+
+  test('只列出保存过 Cookie 的账号，默认账号在前', () => {
+    expect(listProfiles(root)).toEqual([]);
+
+    login('work');
+    login('alt');
+    fs.mkdirSync(path.join(root, 'profiles', 'empty'), {recursive: true});
+    expect(listProfiles(root)).toEqual(['alt', 'work']);
+
+    login('default');
+    expect(listProfiles(root)).toEqual(['default', 'alt', 'work']);
+  });
+
+  test('只保存了 storage state 的账号也算登录过', () => {
+    const dir = profileDir('state', root);
+    fs.mkdirSync(dir, {recursive: true});
+    fs.writeFileSync(path.join(dir, 'storage-state.json'), '{"cookies":[],"origins":[]}');
+    expect(profileExists('state', root)).toBe(true);
+    expect(listProfiles(root)).toEqual(['state']);
+  });
+});
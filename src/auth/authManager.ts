@@ -1,25 +1,87 @@
-import {Browser, BrowserContext, chromium, Cookie, Page} from 'playwright';
-import {CookieManager} from './cookieManager';
+import {Browser, BrowserContext, BrowserContextOptions, chromium, Cookie, Page} from 'playwright';
+import {CookieManager, StorageState} from './cookieManager';
 import * as dotenv from 'dotenv';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import logger from '../utils/logger';
+import {decodeDataUrl} from '../utils/qrcode';
+import {BrowserProfile, contextOptions, launchOptions, RequestOptions, requestOptions} from '../browser/browserProfile';
+import {BrowserNotInstalledError, isBrowserMissing, TimeoutError} from '../errors';
+import {anyOf, getSelectors, queryFirst} from '../tools/selectors';
+import {getConfigOrDefault} from '../config';
+import {
+  describeLoginStatus,
+  LoggedInUser,
+  LoginStatus,
+  readLoggedInUser,
+  readVerification,
+  verificationPath,
+  writeVerification,
+} from './loginStatus';
 
 dotenv.config();
 
+export const DEFAULT_BASE_URL = 'https://www.xiaohongshu.com';
+
+export interface AuthOptions {
+  cookiePath?: string;
+  // Site to log in to, only overridden by tests running against a local stand-in
+  baseUrl?: string;
+  // Run the browser without a window, defaults to browser.headless from the config
+  headless?: boolean;
+  // How long before the session cookies expire to start warning, in milliseconds
+  expiryWarning?: number;
+  // How long to wait for the QR code to be scanned, in milliseconds
+  loginTimeout?: number;
+  // Attempts to load the login page before giving up
+  loginRetries?: number;
+  // Proxy, user agent, viewport and the like for every browser this manager launches
+  browser?: BrowserProfile;
+  // Keep the Playwright storage state (cookies and localStorage) instead of a bare cookie file, defaults to true
+  storageState?: boolean;
+  // Encrypt the saved cookies and storage state with this key, see readCookieKey()
+  encryptionKey?: string;
+}
+
+export interface LoginOptions {
+  // Called with an image of the login QR code and its MIME type, again whenever the site refreshes it
+  onQrCode?: (image: Buffer, mimeType: string) => void | Promise<void>;
+  // How long to wait for the user to scan the QR code, in milliseconds
+  timeout?: number;
+}
+
+const LOGIN_POLL_INTERVAL = 2000;
+
 export class AuthManager {
   private browser: Browser | null;
   private context: BrowserContext | null;
   private page: Page | null;
   private cookieManager: CookieManager;
+  private readonly verificationPath: string;
+  private readonly expiryWarning?: number;
+  private readonly loginTimeout: number;
+  private readonly loginRetries: number;
+  private readonly headless: boolean;
+  private readonly browserProfile: BrowserProfile;
+  readonly baseUrl: string;
 
-  constructor(cookiePath?: string) {
+  constructor(options: AuthOptions | string = {}) {
     logger.info('Initializing AuthManager');
     this.browser = null;
     this.context = null;
     this.page = null;
 
+    if (typeof options === 'string') {
+      options = {cookiePath: options};
+    }
+    let cookiePath = options.cookiePath;
+    this.headless = options.headless ?? getConfigOrDefault().browser.headless;
+    this.baseUrl = (options.baseUrl ?? DEFAULT_BASE_URL).replace(/\/+$/, '');
+    this.expiryWarning = options.expiryWarning;
+    this.loginTimeout = options.loginTimeout ?? 120000;
+    this.loginRetries = options.loginRetries ?? 3;
+    this.browserProfile = options.browser ?? {};
     // Set default cookie path to ~/.mcp/rednote/cookies.json
     if (!cookiePath) {
       const homeDir = os.homedir();
@@ -40,15 +102,25 @@ export class AuthManager {
     }
 
     logger.info(`Using cookie path: ${cookiePath}`);
-    this.cookieManager = new CookieManager(cookiePath);
+    this.cookieManager = new CookieManager(cookiePath, {
+      storageState: options.storageState ?? true,
+      encryptionKey: options.encryptionKey,
+    });
+    this.verificationPath = verificationPath(cookiePath);
   }
 
   async getBrowser(): Promise<Browser> {
-    if (!this.browser) {
+    if (!this.browser || !this.browser.isConnected()) {
       logger.info('Launching browser');
-      this.browser = await chromium.launch({
-        headless: false,
-      });
+      try {
+        this.browser = await chromium.launch(launchOptions(this.browserProfile, this.headless));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        if (isBrowserMissing(message)) {
+          throw new BrowserNotInstalledError(`Chromium is not installed for Playwright: ${message.split('\n')[0]}`);
+        }
+        throw error;
+      }
     }
     return this.browser;
   }
@@ -58,87 +130,124 @@ export class AuthManager {
     return await this.cookieManager.loadCookies();
   }
 
-  async login(): Promise<void> {
+  /**
+   * Saved cookies and localStorage, in the form browser.newContext() takes
+   */
+  async getStorageState(): Promise<StorageState> {
+    return await this.cookieManager.loadStorageState();
+  }
+
+  /**
+   * User agent, viewport, locale and timezone every context should be created with
+   */
+  getContextOptions(): BrowserContextOptions {
+    return contextOptions(this.browserProfile);
+  }
+
+  /**
+   * Proxy and user agent for requests made outside a page, such as resolving short links
+   */
+  getRequestOptions(): RequestOptions {
+    return requestOptions(this.browserProfile);
+  }
+
+  /**
+   * What the saved cookies and the last verification say about the login, without opening the site
+   */
+  async getLoginStatus(): Promise<LoginStatus> {
+    const cookies = await this.cookieManager.loadCookies();
+    return describeLoginStatus(cookies, readVerification(this.verificationPath), Date.now(), this.expiryWarning);
+  }
+
+  /**
+   * Remember that a page load just confirmed the login, and whose login it is
+   */
+  async recordVerification(user: LoggedInUser): Promise<void> {
+    await writeVerification(this.verificationPath, {...user, verifiedAt: new Date().toISOString()});
+  }
+
+  /**
+   * Forget the login: close the login browser and delete the saved cookies, storage state and verification
+   */
+  async logout(): Promise<void> {
+    logger.info('Logging out');
+    await this.cleanup();
+    await this.cookieManager.clearCookies();
+    await fs.promises.rm(this.verificationPath, {force: true});
+  }
+
+  async login(options: LoginOptions = {}): Promise<void> {
     logger.info('Starting login process');
-    this.browser = await chromium.launch({headless: false});
-    if (!this.browser) {
-      logger.error('Failed to launch browser');
-      throw new Error('Failed to launch browser');
-    }
+    const timeout = options.timeout ?? this.loginTimeout;
+    const selectors = getSelectors().login;
+    const browser = await this.getBrowser();
 
     let retryCount = 0;
-    const maxRetries = 3;
+    const maxRetries = this.loginRetries;
 
     while (retryCount < maxRetries) {
       try {
         logger.info(`Login attempt ${retryCount + 1}/${maxRetries}`);
-        this.context = await this.browser.newContext();
+        // Start from the existing cookies and localStorage if available
+        this.context = await browser.newContext({
+          ...this.getContextOptions(),
+          storageState: await this.getStorageState(),
+        });
         this.page = await this.context.newPage();
 
-        // Load existing cookies if available
-        const cookies = await this.cookieManager.loadCookies();
-        if (cookies && cookies.length > 0) {
-          logger.info(`Loaded ${cookies.length} existing cookies`);
-          await this.context.addCookies(cookies);
-        }
-
         // Navigate to explore page
         logger.info('Navigating to explore page');
-        await this.page.goto('https://www.xiaohongshu.com/explore', {
+        await this.page.goto(`${this.baseUrl}/explore`, {
           waitUntil: 'domcontentloaded',
           timeout: 10000
         });
 
         // Check if already logged in
-        const userSidebar = await this.page.$('.user.side-bar-component .channel');
-        if (userSidebar) {
-          const isLoggedIn = await this.page.evaluate(() => {
-            const sidebarUser = document.querySelector('.user.side-bar-component .channel');
-            return sidebarUser?.textContent?.trim() === '我';
-          });
-
-          if (isLoggedIn) {
-            logger.info('Already logged in');
-            // Already logged in, save cookies and return
-            const newCookies = await this.context.cookies();
-            await this.cookieManager.saveCookies(newCookies);
-            return;
-          }
+        if (await this.isLoggedIn(this.page)) {
+          logger.info('Already logged in');
+          // Already logged in, save cookies and return
+          await this.cookieManager.saveStorageState(await this.context.storageState());
+          await this.recordLoggedInPage(this.page);
+          return;
         }
 
         logger.info('Waiting for login dialog');
         // Wait for login dialog if not logged in
-        await this.page.waitForSelector('.login-container', {
+        await this.page.waitForSelector(anyOf(selectors.loginContainer), {
           timeout: 10000
         });
 
         // Wait for QR code image
         logger.info('Waiting for QR code');
-        const qrCodeImage = await this.page.waitForSelector('.qrcode-img', {
+        await this.page.waitForSelector(anyOf(selectors.qrCode), {
           timeout: 10000
         });
 
-        // Wait for user to complete login
+        // Poll until the user scans the QR code, passing on every new QR code the site shows
         logger.info('Waiting for user to complete login');
-        await this.page.waitForSelector('.user.side-bar-component .channel', {
-          timeout: 60000
-        });
+        const deadline = Date.now() + timeout;
+        let lastQrCode: string | null = null;
+        while (!(await this.isLoggedIn(this.page))) {
+          if (Date.now() > deadline) {
+            throw new TimeoutError(`QR code login timed out after ${timeout}ms`);
+          }
 
-        // Verify the text content
-        const isLoggedIn = await this.page.evaluate(() => {
-          const sidebarUser = document.querySelector('.user.side-bar-component .channel');
-          return sidebarUser?.textContent?.trim() === '我';
-        });
+          const qrCodeImage = await queryFirst(this.page, selectors.qrCode);
+          const src = await qrCodeImage?.getAttribute('src');
+          if (qrCodeImage && src && src !== lastQrCode) {
+            lastQrCode = src;
+            logger.info('QR code ready for scanning');
+            const image = decodeDataUrl(src) ?? {data: await qrCodeImage.screenshot({type: 'png'}), mimeType: 'image/png'};
+            await options.onQrCode?.(image.data, image.mimeType);
+          }
 
-        if (!isLoggedIn) {
-          logger.error('Login verification failed');
-          throw new Error('Login verification failed');
+          await new Promise(resolve => setTimeout(resolve, LOGIN_POLL_INTERVAL));
         }
 
         logger.info('Login successful, saving cookies');
-        // Save cookies after successful login
-        const newCookies = await this.context.cookies();
-        await this.cookieManager.saveCookies(newCookies);
+        // Save cookies and localStorage after successful login
+        await this.cookieManager.saveStorageState(await this.context.storageState());
+        await this.recordLoggedInPage(this.page);
         return;
       } catch (error) {
         logger.error(`Login attempt ${retryCount + 1} failed:`, error);
@@ -146,6 +255,11 @@ export class AuthManager {
         if (this.page) await this.page.close();
         if (this.context) await this.context.close();
 
+        // Nobody scanned the QR code, a fresh one will not help
+        if (error instanceof TimeoutError) {
+          throw error;
+        }
+
         retryCount++;
         if (retryCount < maxRetries) {
           logger.info(`Retrying login in 2 seconds (${retryCount}/${maxRetries})`);
@@ -158,10 +272,29 @@ export class AuthManager {
     }
   }
 
+  async isLoggedIn(page: Page): Promise<boolean> {
+    return await page.evaluate((selectors) => {
+      const sidebarUser = selectors.map(selector => document.querySelector(selector)).find(Boolean);
+      return sidebarUser?.textContent?.trim() === '我';
+    }, getSelectors().login.loggedInUser);
+  }
+
+  /**
+   * Record the verification for a page that shows the logged-in sidebar, never throws
+   */
+  async recordLoggedInPage(page: Page): Promise<void> {
+    try {
+      await this.recordVerification(await readLoggedInUser(page));
+    } catch (error) {
+      logger.warn('Failed to record login verification:', error);
+    }
+  }
+
   async cleanup(): Promise<void> {
     logger.info('Cleaning up browser resources');
     if (this.page) await this.page.close();
     if (this.context) await this.context.close();
+    if (this.browser) await this.browser.close();
     this.page = null;
     this.context = null;
     this.browser = null;
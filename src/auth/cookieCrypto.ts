@@ -0,0 +1,99 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import {CookieKeyError} from '../errors';
+
+// Holds the key itself, takes precedence over a key file
+export const COOKIE_KEY_ENV = 'REDNOTE_COOKIE_KEY';
+
+const ALGORITHM = 'aes-256-gcm';
+const FORMAT_VERSION = 1;
+
+// What an encrypted file holds instead of the plain JSON
+interface EncryptedFile {
+  version: number;
+  algorithm: typeof ALGORITHM;
+  // Per-file scrypt salt, so the same passphrase never yields the same key twice
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+/**
+ * The encryption key from REDNOTE_COOKIE_KEY or the key file, undefined when encryption is off
+ */
+export function readCookieKey(keyFile?: string, env: NodeJS.ProcessEnv = process.env): string | undefined {
+  const fromEnv = env[COOKIE_KEY_ENV];
+  if (fromEnv) {
+    return fromEnv;
+  }
+  if (!keyFile) {
+    return undefined;
+  }
+  let key: string;
+  try {
+    key = fs.readFileSync(keyFile, 'utf-8').trim();
+  } catch (error) {
+    throw new CookieKeyError(`Cannot read the cookie key file ${keyFile}: ${error instanceof Error ? error.message : error}`);
+  }
+  if (!key) {
+    throw new CookieKeyError(`The cookie key file ${keyFile} is empty`);
+  }
+  return key;
+}
+
+/**
+ * Encrypt with AES-256-GCM under a key derived from the passphrase
+ */
+export function encrypt(plaintext: string, passphrase: string): string {
+  const salt = crypto.randomBytes(16);
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(ALGORITHM, deriveKey(passphrase, salt), iv);
+  const data = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()]);
+  const file: EncryptedFile = {
+    version: FORMAT_VERSION,
+    algorithm: ALGORITHM,
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Decrypt what encrypt() wrote, the GCM tag makes a wrong key or a tampered file fail loudly
+ */
+export function decrypt(content: string, passphrase: string): string {
+  const file: EncryptedFile = JSON.parse(content);
+  if (file.version !== FORMAT_VERSION || file.algorithm !== ALGORITHM) {
+    throw new CookieKeyError(`Unsupported cookie encryption ${file.algorithm} version ${file.version}`);
+  }
+  try {
+    const decipher = crypto.createDecipheriv(
+      ALGORITHM,
+      deriveKey(passphrase, Buffer.from(file.salt, 'base64')),
+      Buffer.from(file.iv, 'base64')
+    );
+    decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+    return Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()]).toString('utf-8');
+  } catch (error) {
+    throw new CookieKeyError('Cannot decrypt the saved cookies, the key does not match the one they were saved with');
+  }
+}
+
+/**
+ * Whether the content of a cookie or storage state file was written by encrypt()
+ */
+export function isEncrypted(content: string): boolean {
+  try {
+    const parsed = JSON.parse(content);
+    return !!parsed && typeof parsed === 'object' && !Array.isArray(parsed) && parsed.algorithm === ALGORITHM;
+  } catch (error) {
+    return false;
+  }
+}
+
+function deriveKey(passphrase: string, salt: Buffer): Buffer {
+  return crypto.scryptSync(passphrase, salt, 32);
+}
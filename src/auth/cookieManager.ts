@@ -1,46 +1,138 @@
 import fs from 'fs';
 import path from 'path';
-import {Cookie} from 'playwright';
+import {BrowserContext, Cookie} from 'playwright';
 import logger from '../utils/logger';
+import {CookieKeyError} from '../errors';
+import {COOKIE_KEY_ENV, decrypt, encrypt, isEncrypted} from './cookieCrypto';
+
+// What Playwright's storageState() returns: cookies plus each origin's localStorage
+export type StorageState = Awaited<ReturnType<BrowserContext['storageState']>>;
+
+export interface CookieManagerOptions {
+  // Keep the full storage state next to the cookie file instead of only the cookies
+  storageState?: boolean;
+  // Encrypt the saved files with AES-GCM under this key, plaintext files are encrypted the next time they are read
+  encryptionKey?: string;
+}
+
+// Only the owner may read or change the saved login
+const FILE_MODE = 0o600;
+const DIR_MODE = 0o700;
+
+export const STORAGE_STATE_FILE = 'storage-state.json';
 
 export class CookieManager {
   private readonly cookiePath: string;
+  private readonly statePath: string | null;
+  private readonly encryptionKey?: string;
 
-  constructor(cookiePath: string) {
+  constructor(cookiePath: string, options: CookieManagerOptions = {}) {
     logger.info(`Initializing CookieManager with path: ${cookiePath}`);
     this.cookiePath = cookiePath;
+    this.statePath = options.storageState ? path.join(path.dirname(cookiePath), STORAGE_STATE_FILE) : null;
+    this.encryptionKey = options.encryptionKey;
   }
 
   async saveCookies(cookies: Cookie[]): Promise<void> {
     logger.info(`Saving ${cookies.length} cookies to ${this.cookiePath}`);
-    const dir = path.dirname(this.cookiePath);
-    if (!fs.existsSync(dir)) {
-      logger.info(`Creating directory: ${dir}`);
-      fs.mkdirSync(dir, {recursive: true});
-    }
-    await fs.promises.writeFile(this.cookiePath, JSON.stringify(cookies, null, 2));
+    await this.writeJson(this.cookiePath, cookies);
     logger.info('Cookies saved successfully');
   }
 
+  /**
+   * Save what a logged-in context holds. Without storage state mode only the cookies are kept.
+   */
+  async saveStorageState(state: StorageState): Promise<void> {
+    if (!this.statePath) {
+      await this.saveCookies(state.cookies);
+      return;
+    }
+    logger.info(`Saving storage state with ${state.cookies.length} cookies and ${state.origins.length} origins to ${this.statePath}`);
+    await this.writeJson(this.statePath, state);
+    // The state file supersedes the old cookie file, a stale copy would only confuse
+    if (fs.existsSync(this.cookiePath)) {
+      await fs.promises.unlink(this.cookiePath);
+    }
+    logger.info('Storage state saved successfully');
+  }
+
   async loadCookies(): Promise<Cookie[]> {
+    return (await this.loadStorageState()).cookies;
+  }
+
+  /**
+   * Saved cookies and localStorage. A cookie file from before storage state mode is still read.
+   */
+  async loadStorageState(): Promise<StorageState> {
+    if (this.statePath && fs.existsSync(this.statePath)) {
+      logger.info(`Loading storage state from ${this.statePath}`);
+      const state: StorageState = await this.readJson(this.statePath);
+      logger.info(`Loaded ${state.cookies.length} cookies and ${state.origins.length} origins`);
+      return state;
+    }
     if (!fs.existsSync(this.cookiePath)) {
       logger.info('No cookies file found, returning empty array');
-      return [];
+      return {cookies: [], origins: []};
     }
     logger.info(`Loading cookies from ${this.cookiePath}`);
-    const data = await fs.promises.readFile(this.cookiePath, 'utf-8');
-    const cookies = JSON.parse(data);
+    const cookies: Cookie[] = await this.readJson(this.cookiePath);
     logger.info(`Loaded ${cookies.length} cookies`);
-    return cookies;
+    return {cookies, origins: []};
   }
 
   async clearCookies(): Promise<void> {
-    if (fs.existsSync(this.cookiePath)) {
-      logger.info(`Clearing cookies at ${this.cookiePath}`);
-      await fs.promises.unlink(this.cookiePath);
-      logger.info('Cookies cleared successfully');
-    } else {
+    const files = [this.cookiePath, this.statePath].filter((file): file is string => !!file && fs.existsSync(file));
+    if (files.length === 0) {
       logger.info('No cookies file found to clear');
+      return;
+    }
+    for (const file of files) {
+      logger.info(`Clearing cookies at ${file}`);
+      await fs.promises.unlink(file);
+    }
+    logger.info('Cookies cleared successfully');
+  }
+
+  private async readJson<T>(file: string): Promise<T> {
+    const content = await fs.promises.readFile(file, 'utf-8');
+    if (isEncrypted(content)) {
+      if (!this.encryptionKey) {
+        throw new CookieKeyError(`${file} is encrypted, set ${COOKIE_KEY_ENV} or encryption.keyFile to read it`);
+      }
+      return JSON.parse(decrypt(content, this.encryptionKey));
+    }
+
+    const value = JSON.parse(content);
+    if (this.encryptionKey) {
+      logger.info(`Encrypting plaintext ${file}`);
+      await this.writeJson(file, value);
+    } else {
+      await restrictPermissions(file);
     }
+    return value;
+  }
+
+  private async writeJson(file: string, content: unknown): Promise<void> {
+    const dir = path.dirname(file);
+    if (!fs.existsSync(dir)) {
+      logger.info(`Creating directory: ${dir}`);
+      fs.mkdirSync(dir, {recursive: true, mode: DIR_MODE});
+    }
+    const json = JSON.stringify(content, null, 2);
+    await fs.promises.writeFile(file, this.encryptionKey ? encrypt(json, this.encryptionKey) : json, {mode: FILE_MODE});
+    // The mode only applies to new files, tighten files written by older versions too
+    await restrictPermissions(file);
+  }
+}
+
+async function restrictPermissions(file: string): Promise<void> {
+  // Windows has no POSIX permissions to tighten
+  if (process.platform === 'win32') {
+    return;
+  }
+  const {mode} = await fs.promises.stat(file);
+  if ((mode & 0o777) !== FILE_MODE) {
+    logger.info(`Restricting permissions of ${file} to owner only`);
+    await fs.promises.chmod(file, FILE_MODE);
   }
 }
@@ -0,0 +1,79 @@
+import {AuthManager} from './authManager';
+import logger from '../utils/logger';
+
+export type LoginState =
+  | {status: 'waiting'; qrCode: Buffer; mimeType: string}
+  | {status: 'success'}
+  | {status: 'failed'; error: unknown};
+
+/**
+ * Runs a QR code login in the background so it can be driven by repeated tool calls:
+ * the first call starts the login and returns the QR code, later calls report progress.
+ */
+export class LoginSession {
+  private readonly createAuthManager: () => AuthManager;
+  private state: LoginState | null = null;
+  private running: Promise<void> | null = null;
+
+  constructor(createAuthManager: () => AuthManager) {
+    this.createAuthManager = createAuthManager;
+  }
+
+  /**
+   * Start a login if none is running, otherwise report the current one.
+   * Resolves as soon as a QR code is available or the login has finished.
+   * A finished login is reported once, the next call starts over.
+   */
+  async poll(): Promise<LoginState> {
+    if (!this.running && this.state) {
+      return this.takeFinished(this.state);
+    }
+    if (this.running && this.state) {
+      return this.state;
+    }
+    if (!this.running) {
+      this.start();
+    }
+
+    // Wait for the first QR code or for the login to end
+    const state = await new Promise<LoginState>(resolve => {
+      const check = () => {
+        if (this.state) {
+          resolve(this.state);
+        } else {
+          setTimeout(check, 200);
+        }
+      };
+      check();
+    });
+    return state.status === 'waiting' ? state : this.takeFinished(state);
+  }
+
+  private takeFinished(state: LoginState): LoginState {
+    this.state = null;
+    return state;
+  }
+
+  private start(): void {
+    logger.info('Starting background QR code login');
+    const authManager = this.createAuthManager();
+    this.running = authManager
+      .login({
+        onQrCode: (qrCode, mimeType) => {
+          this.state = {status: 'waiting', qrCode, mimeType};
+        }
+      })
+      .then(
+        (): LoginState => ({status: 'success'}),
+        (error): LoginState => {
+          logger.error('Background login failed:', error);
+          return {status: 'failed', error};
+        }
+      )
+      .then(async state => {
+        await authManager.cleanup().catch(error => logger.warn('Failed to clean up login browser:', error));
+        this.state = state;
+        this.running = null;
+      });
+  }
+}
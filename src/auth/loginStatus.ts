@@ -0,0 +1,147 @@
+import fs from 'fs';
+import path from 'path';
+import {Cookie, Page} from 'playwright';
+import logger from '../utils/logger';
+import {pick, readInitialState} from '../tools/initialState';
+import {getSelectors} from '../tools/selectors';
+import {userIdFromUrl} from '../tools/userProfile';
+
+// The site keeps the login in web_session, a1 identifies the device it was issued to
+export const SESSION_COOKIE_NAMES = ['web_session', 'a1'];
+
+// Warn when the session has less than this left, in milliseconds
+export const DEFAULT_EXPIRY_WARNING = 3 * 24 * 60 * 60 * 1000;
+
+export interface LoggedInUser {
+  userId?: string;
+  nickname?: string;
+  // The 小红书号 shown on the profile
+  redId?: string;
+}
+
+// Written next to the cookies whenever a page load confirms the login
+export interface VerificationRecord extends LoggedInUser {
+  verifiedAt: string;
+}
+
+export interface CookieExpiry {
+  name: string;
+  // ISO 8601, absent for a cookie that only lives as long as the browser
+  expires?: string;
+  expired: boolean;
+}
+
+export interface LoginStatus {
+  hasCookies: boolean;
+  // Key session cookies found in the cookie file
+  sessionCookies: CookieExpiry[];
+  // Earliest expiry among the key session cookies, ISO 8601
+  expiresAt?: string;
+  expired: boolean;
+  expiringSoon: boolean;
+  // Result of a live check against the site, absent when none was made
+  loggedIn?: boolean;
+  user?: LoggedInUser;
+  lastVerifiedAt?: string;
+  // Human readable note about an upcoming or past expiry
+  warning?: string;
+}
+
+export function verificationPath(cookiePath: string): string {
+  return path.join(path.dirname(cookiePath), 'login-status.json');
+}
+
+export function readVerification(file: string): VerificationRecord | null {
+  try {
+    return fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf-8')) : null;
+  } catch (error) {
+    logger.warn(`Ignoring unreadable login status at ${file}:`, error);
+    return null;
+  }
+}
+
+export async function writeVerification(file: string, record: VerificationRecord): Promise<void> {
+  await fs.promises.mkdir(path.dirname(file), {recursive: true});
+  await fs.promises.writeFile(file, JSON.stringify(record, null, 2), {mode: 0o600});
+}
+
+/**
+ * Work out from the saved cookies alone whether the login is still usable and for how long
+ */
+export function describeLoginStatus(
+  cookies: Cookie[],
+  verification: VerificationRecord | null,
+  now: number = Date.now(),
+  warnBefore: number = DEFAULT_EXPIRY_WARNING
+): LoginStatus {
+  const sessionCookies = SESSION_COOKIE_NAMES.map(name => cookies.find(cookie => cookie.name === name))
+    .filter((cookie): cookie is Cookie => Boolean(cookie))
+    .map(cookie => {
+      // Playwright stores expiry in seconds since the epoch, -1 for a session cookie
+      const expires = cookie.expires > 0 ? cookie.expires * 1000 : undefined;
+      return {
+        name: cookie.name,
+        expires: expires ? new Date(expires).toISOString() : undefined,
+        expired: expires !== undefined && expires <= now,
+      };
+    });
+
+  const expiries = sessionCookies.filter(cookie => cookie.expires).map(cookie => Date.parse(cookie.expires!));
+  const expiresAt = expiries.length > 0 ? Math.min(...expiries) : undefined;
+  const hasSession = sessionCookies.some(cookie => cookie.name === 'web_session');
+  const expired = !hasSession || sessionCookies.some(cookie => cookie.expired);
+  const expiringSoon = !expired && expiresAt !== undefined && expiresAt - now < warnBefore;
+
+  let warning: string | undefined;
+  if (cookies.length === 0) {
+    warning = 'No saved cookies, log in first';
+  } else if (!hasSession) {
+    warning = 'The saved cookies hold no web_session, log in again';
+  } else if (expired) {
+    warning = `The login expired at ${new Date(expiresAt!).toISOString()}, log in again`;
+  } else if (expiringSoon) {
+    const hours = Math.max(1, Math.round((expiresAt! - now) / (60 * 60 * 1000)));
+    warning = `The login expires in about ${hours} hours (${new Date(expiresAt!).toISOString()}), log in again soon`;
+  }
+
+  return {
+    hasCookies: cookies.length > 0,
+    sessionCookies,
+    expiresAt: expiresAt !== undefined ? new Date(expiresAt).toISOString() : undefined,
+    expired,
+    expiringSoon,
+    user: verification ? pickUser(verification) : undefined,
+    lastVerifiedAt: verification?.verifiedAt,
+    warning,
+  };
+}
+
+/**
+ * Nickname and id of the account a logged-in page belongs to, from the page's initial state
+ * or, failing that, the id in the sidebar's profile link
+ */
+export async function readLoggedInUser(page: Page): Promise<LoggedInUser> {
+  const state = await readInitialState(page);
+  const field = (name: string) => {
+    const value = pick(state, 'user', 'userInfo', name);
+    return typeof value === 'string' && value ? value : undefined;
+  };
+  const user: LoggedInUser = {
+    userId: field('userId'),
+    nickname: field('nickname'),
+    redId: field('redId'),
+  };
+  if (!user.userId) {
+    const href = await page.evaluate(selectors => {
+      const sidebarUser = selectors.map(selector => document.querySelector(selector)).find(Boolean);
+      return sidebarUser?.closest('a')?.getAttribute('href') || null;
+    }, getSelectors().login.loggedInUser);
+    user.userId = href ? userIdFromUrl(href) : undefined;
+  }
+  return user;
+}
+
+function pickUser(record: LoggedInUser): LoggedInUser | undefined {
+  const {userId, nickname, redId} = record;
+  return userId || nickname ? {userId, nickname, redId} : undefined;
+}
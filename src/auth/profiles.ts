@@ -0,0 +1,58 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {STORAGE_STATE_FILE} from './cookieManager';
+
+// The account that keeps using the original ~/.mcp/rednote/cookies.json
+export const DEFAULT_PROFILE = 'default';
+
+export const REDNOTE_DIR = path.join(os.homedir(), '.mcp', 'rednote');
+
+/**
+ * Check that an account name is safe to use as a directory name
+ */
+export function validateProfileName(name: string): string {
+  if (!/^[A-Za-z0-9_-]{1,32}$/.test(name)) {
+    throw new Error(`Invalid account name "${name}": use up to 32 letters, digits, "-" or "_"`);
+  }
+  return name;
+}
+
+/**
+ * Directory holding an account's cookies and browser state. The default account lives
+ * directly in the root so installs from before named accounts keep their login.
+ */
+export function profileDir(name: string, root: string = REDNOTE_DIR): string {
+  validateProfileName(name);
+  return name === DEFAULT_PROFILE ? root : path.join(root, 'profiles', name);
+}
+
+export function profileCookiePath(name: string, root: string = REDNOTE_DIR): string {
+  return path.join(profileDir(name, root), 'cookies.json');
+}
+
+/**
+ * Whether the account has logged in at least once
+ */
+export function profileExists(name: string, root: string = REDNOTE_DIR): boolean {
+  return (
+    fs.existsSync(profileCookiePath(name, root)) ||
+    fs.existsSync(path.join(profileDir(name, root), STORAGE_STATE_FILE))
+  );
+}
+
+/**
+ * Every account that has saved cookies, the default one first
+ */
+export function listProfiles(root: string = REDNOTE_DIR): string[] {
+  const profilesDir = path.join(root, 'profiles');
+  const named = fs.existsSync(profilesDir)
+    ? fs
+        .readdirSync(profilesDir, {withFileTypes: true})
+        .filter(entry => entry.isDirectory() && /^[A-Za-z0-9_-]{1,32}$/.test(entry.name))
+        .map(entry => entry.name)
+        .filter(name => name !== DEFAULT_PROFILE && profileExists(name, root))
+        .sort()
+    : [];
+  return profileExists(DEFAULT_PROFILE, root) ? [DEFAULT_PROFILE, ...named] : named;
+}
@@ -0,0 +1,58 @@
+import { contextOptions, launchOptions, parseViewport, requestOptions } from '../browserProfile'
+
+describe('browserProfile', () => {
+  test('代理、可执行文件和额外参数用于启动浏览器', () => {
+    const profile = {
+      proxy: { server: 'socks5://127.0.0.1:1080' },
+      executablePath: '/usr/bin/chromium',
+      args: ['--no-sandbox'],
+      userAgent: 'Mozilla/5.0'
+    }
+    expect(launchOptions(profile, false)).toEqual({
+      headless: false,
+      proxy: { server: 'socks5://127.0.0.1:1080' },
+      executablePath: '/usr/bin/chromium',
+      args: ['--no-sandbox']
+    })
+  })
+
+  test('没有配置时只设置 headless', () => {
+    expect(launchOptions({ args: [] }, true)).toEqual({ headless: true })
+    expect(contextOptions({})).toEqual({})
+  })
+
+  test('用户代理、窗口大小、语言和时区用于浏览器上下文', () => {
+    expect(
+      contextOptions({
+        userAgent: 'Mozilla/5.0',
+        viewport: { width: 1280, height: 800 },
+        locale: 'zh-CN',
+        timezoneId: 'Asia/Shanghai',
+        channel: 'chrome'
+      })
+    ).toEqual({
+      userAgent: 'Mozilla/5.0',
+      viewport: { width: 1280, height: 800 },
+      locale: 'zh-CN',
+      timezoneId: 'Asia/Shanghai'
+    })
+  })
+
+  test('页面之外的请求使用同一个代理和用户代理', () => {
+    expect(requestOptions({})).toEqual({})
+    expect(
+      requestOptions({ proxy: { server: 'socks5://127.0.0.1:1080' }, userAgent: 'Mozilla/5.0', locale: 'zh-CN' })
+    ).toEqual({ proxy: { server: 'socks5://127.0.0.1:1080' }, userAgent: 'Mozilla/5.0' })
+  })
+
+  test.each([
+    ['1280x800', { width: 1280, height: 800 }],
+    [' 390X844 ', { width: 390, height: 844 }]
+  ])('解析窗口大小 %p', (value, viewport) => {
+    expect(parseViewport(value)).toEqual(viewport)
+  })
+
+  test('窗口大小格式错误时报错', () => {
+    expect(() => parseViewport('1280')).toThrow('Viewport must look like 1280x800')
+  })
+})
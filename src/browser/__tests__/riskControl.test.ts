@@ -0,0 +1,31 @@
+import { classifyRiskControl } from '../riskControl'
+
+const NOTE_URL = 'https://www.xiaohongshu.com/explore/64b8c1f2000000001e03a1b1'
+
+describe('classifyRiskControl', () => {
+  test.each([
+    [
+      { url: 'https://www.xiaohongshu.com/website-login/captcha?redirectPath=x', text: '', hasCaptcha: false },
+      'captcha'
+    ],
+    [{ url: NOTE_URL, text: '请拖动下方滑块完成拼图', hasCaptcha: true }, 'captcha'],
+    [{ url: NOTE_URL, text: '访问频繁，请稍后再试\n返回首页', hasCaptcha: false }, 'rate_limit'],
+    [
+      { url: 'https://www.xiaohongshu.com/explore', text: '访问频次异常，请勿频繁操作', hasCaptcha: false },
+      'rate_limit'
+    ],
+    [{ url: NOTE_URL, text: '为了你的账号安全，请完成验证', hasCaptcha: false }, 'verification'],
+    [
+      { url: 'https://www.xiaohongshu.com/website-login/verify?verifyType=102', text: '', hasCaptcha: false },
+      'verification'
+    ],
+    [{ url: NOTE_URL, text: '带上野餐垫和水果，找一片树荫就是一个下午。', hasCaptcha: false }, null]
+  ])('%p 应该识别为 %p', (snapshot, kind) => {
+    expect(classifyRiskControl(snapshot)?.kind ?? null).toBe(kind)
+  })
+
+  test('正文很长的笔记即使提到访问频繁也不是风控页面', () => {
+    const text = `遇到访问频繁怎么办？${'分享一些经验。'.repeat(200)}`
+    expect(classifyRiskControl({ url: NOTE_URL, text, hasCaptcha: false })).toBeNull()
+  })
+})
@@ -0,0 +1,164 @@
+import { EventEmitter } from 'events'
+import { Browser, Page } from 'playwright'
+import { AuthManager } from '../../auth/authManager'
+import { SessionManager } from '../sessionManager'
+
+class FakePage extends EventEmitter {
+  closed = false
+
+  isClosed() {
+    return this.closed
+  }
+
+  async close() {
+    this.closed = true
+    this.emit('close')
+  }
+}
+
+class FakeBrowser extends EventEmitter {
+  connected = true
+  pages: FakePage[] = []
+  failNewPage = false
+  readonly newContext = jest.fn(async () => ({
+    newPage: async () => {
+      if (this.failNewPage) throw new Error('Target page, context or browser has been closed')
+      const page = new FakePage()
+      this.pages.push(page)
+      return page
+    }
+  }))
+
+  isConnected() {
+    return this.connected
+  }
+
+  async close() {
+    this.connected = false
+    this.emit('disconnected')
+  }
+}
+
+describe('SessionManager', () => {
+  let browsers: FakeBrowser[]
+  let authManager: AuthManager
+
+  beforeEach(() => {
+    browsers = []
+    authManager = {
+      getBrowser: jest.fn(async () => {
+        const browser = new FakeBrowser()
+        browsers.push(browser)
+        return browser as unknown as Browser
+      }),
+      getStorageState: jest.fn(async () => ({ cookies: [], origins: [] })),
+      getContextOptions: jest.fn(() => ({ locale: 'zh-CN' }))
+    } as unknown as AuthManager
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  test('归还的页面会被复用，超出 maxIdlePages 的页面会被关闭', async () => {
+    const session = new SessionManager(authManager, { maxIdlePages: 1 })
+    const first = await session.acquirePage()
+    const second = await session.acquirePage()
+    expect(browsers).toHaveLength(1)
+    expect(browsers[0].newContext).toHaveBeenCalledWith({ locale: 'zh-CN', storageState: { cookies: [], origins: [] } })
+
+    await session.releasePage(first)
+    await session.releasePage(second)
+    expect((second as unknown as FakePage).closed).toBe(true)
+    expect(await session.acquirePage()).toBe(first)
+    await session.releasePage(first)
+    await session.shutdown()
+  })
+
+  test('崩溃或关闭的页面不会再被复用', async () => {
+    const session = new SessionManager(authManager)
+    const page = await session.acquirePage()
+    await session.releasePage(page)
+    ;(page as unknown as FakePage).emit('crash')
+
+    const next = await session.acquirePage()
+    expect(next).not.toBe(page)
+    await session.releasePage(next)
+    await session.shutdown()
+  })
+
+  test('打开页面失败时关闭旧浏览器再重新启动', async () => {
+    const session = new SessionManager(authManager)
+    await session.releasePage(await session.acquirePage())
+    const [old] = browsers
+    old.failNewPage = true
+    // Drop the pooled page so a new one has to be opened
+    await old.pages[0].close()
+
+    const page = await session.acquirePage()
+    expect(old.connected).toBe(false)
+    expect(browsers).toHaveLength(2)
+    expect(browsers[1].pages).toContain(page)
+    await session.releasePage(page)
+    await session.shutdown()
+  })
+
+  test('浏览器断开后下次使用时重新启动', async () => {
+    const session = new SessionManager(authManager)
+    await session.releasePage(await session.acquirePage())
+    await browsers[0].close()
+
+    await session.releasePage(await session.acquirePage())
+    expect(browsers).toHaveLength(2)
+    await session.shutdown()
+  })
+
+  test('空闲超时后关闭浏览器', async () => {
+    jest.useFakeTimers()
+    const session = new SessionManager(authManager, { idleTimeout: 1000 })
+    await session.releasePage(await session.acquirePage())
+
+    await jest.advanceTimersByTimeAsync(999)
+    expect(browsers[0].connected).toBe(true)
+    await jest.advanceTimersByTimeAsync(1)
+    expect(browsers[0].connected).toBe(false)
+  })
+
+  test('关闭时等待使用中的页面归还，期间的新请求等关闭后再启动浏览器', async () => {
+    const session = new SessionManager(authManager)
+    const page = await session.acquirePage()
+
+    let closed = false
+    const shutdown = session.shutdown().then(() => (closed = true))
+    const waiting = session.acquirePage()
+    await new Promise((resolve) => setImmediate(resolve))
+    expect(closed).toBe(false)
+    expect(browsers[0].connected).toBe(true)
+
+    await session.releasePage(page)
+    await shutdown
+    expect(browsers[0].connected).toBe(false)
+    expect((page as unknown as FakePage).closed).toBe(true)
+
+    const next = await waiting
+    expect(browsers).toHaveLength(2)
+    expect(browsers[1].pages).toContain(next)
+    await session.releasePage(next)
+    await session.shutdown()
+  })
+
+  test('登录检查成功后在有效期内不再重复检查，失败不缓存', async () => {
+    const session = new SessionManager(authManager, { loginCheckTtl: 60000 })
+    const page = {} as Page
+    const check = jest.fn().mockResolvedValueOnce(false).mockResolvedValue(true)
+
+    expect(await session.ensureLoggedIn(page, check)).toBe(false)
+    expect(await session.ensureLoggedIn(page, check)).toBe(true)
+    expect(await session.ensureLoggedIn(page, check)).toBe(true)
+    expect(check).toHaveBeenCalledTimes(2)
+
+    session.invalidateLogin()
+    await session.ensureLoggedIn(page, check)
+    expect(check).toHaveBeenCalledTimes(3)
+  })
+})
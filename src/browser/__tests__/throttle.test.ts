@@ -0,0 +1,74 @@
+import { Throttle } from '../throttle'
+import { RiskControlError } from '../../errors'
+
+const NO_JITTER = { minDelay: 0, maxDelay: 0 }
+
+describe('Throttle', () => {
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  test('超过每分钟请求数时应该等到窗口滑过', async () => {
+    jest.useFakeTimers()
+    const throttle = new Throttle({ ...NO_JITTER, requestsPerMinute: 2 })
+    const started: number[] = []
+    const acquire = (index: number) => throttle.acquire().then(() => started.push(index))
+
+    const all = Promise.all([acquire(1), acquire(2), acquire(3)])
+    await jest.advanceTimersByTimeAsync(0)
+    expect(started).toEqual([1, 2])
+
+    await jest.advanceTimersByTimeAsync(59000)
+    expect(started).toEqual([1, 2])
+
+    await jest.advanceTimersByTimeAsync(1000)
+    await all
+    expect(started).toEqual([1, 2, 3])
+  })
+
+  test('连续失败后应该指数退避，成功后恢复', async () => {
+    jest.useFakeTimers()
+    const throttle = new Throttle({ ...NO_JITTER, backoffBase: 1000 })
+    throttle.recordFailure()
+    throttle.recordFailure()
+
+    let acquired = false
+    const pending = throttle.acquire().then(() => (acquired = true))
+    await jest.advanceTimersByTimeAsync(1999)
+    expect(acquired).toBe(false)
+    await jest.advanceTimersByTimeAsync(1)
+    await pending
+    expect(acquired).toBe(true)
+
+    throttle.recordSuccess()
+    const next = throttle.acquire()
+    await jest.advanceTimersByTimeAsync(0)
+    await expect(next).resolves.toBeUndefined()
+  })
+
+  test('暂停期间应该立即拒绝并带上风控类型和恢复时间', async () => {
+    const throttle = new Throttle(NO_JITTER)
+    throttle.pause(new RiskControlError('captcha', 'Captcha shown'), 60000)
+
+    const error = await throttle.acquire().catch((error) => error)
+    expect(error).toBeInstanceOf(RiskControlError)
+    expect(error.kind).toBe('captcha')
+    expect(error.message).toContain('Captcha shown')
+    expect(error.retryAt).toBeGreaterThan(Date.now())
+
+    throttle.resume()
+    await expect(throttle.acquire()).resolves.toBeUndefined()
+  })
+
+  test('冷却结束后应该自动恢复', async () => {
+    jest.useFakeTimers()
+    const throttle = new Throttle(NO_JITTER)
+    throttle.pause(new RiskControlError('rate_limit', 'Too frequent'), 10000)
+    await expect(throttle.acquire()).rejects.toBeInstanceOf(RiskControlError)
+
+    jest.setSystemTime(Date.now() + 10000)
+    const next = throttle.acquire()
+    await jest.advanceTimersByTimeAsync(0)
+    await expect(next).resolves.toBeUndefined()
+  })
+})
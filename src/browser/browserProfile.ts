@@ -0,0 +1,58 @@
+import { BrowserContextOptions, LaunchOptions } from 'playwright'
+import { stripUndefined } from '../utils/object'
+
+/**
+ * How the browser is launched and what it presents to the site, shared by the login flow and the tool session
+ */
+export interface BrowserProfile {
+  /** e.g. http://proxy.example.com:8080 or socks5://127.0.0.1:1080 */
+  proxy?: { server: string; bypass?: string; username?: string; password?: string }
+  userAgent?: string
+  viewport?: { width: number; height: number }
+  /** e.g. zh-CN */
+  locale?: string
+  /** e.g. Asia/Shanghai */
+  timezoneId?: string
+  /** Browser binary to run instead of Playwright's own Chromium */
+  executablePath?: string
+  /** An installed browser such as chrome or msedge, instead of Playwright's own Chromium */
+  channel?: string
+  /** Extra command line switches for the browser */
+  args?: string[]
+}
+
+export function launchOptions(profile: BrowserProfile, headless: boolean): LaunchOptions {
+  return stripUndefined({
+    headless,
+    proxy: profile.proxy,
+    executablePath: profile.executablePath,
+    channel: profile.channel,
+    args: profile.args?.length ? profile.args : undefined
+  })
+}
+
+export function contextOptions(profile: BrowserProfile): BrowserContextOptions {
+  return stripUndefined({
+    userAgent: profile.userAgent,
+    viewport: profile.viewport,
+    locale: profile.locale,
+    timezoneId: profile.timezoneId
+  })
+}
+
+export type RequestOptions = Pick<BrowserProfile, 'proxy' | 'userAgent'>
+
+export function requestOptions(profile: BrowserProfile): RequestOptions {
+  return stripUndefined({ proxy: profile.proxy, userAgent: profile.userAgent })
+}
+
+/**
+ * Parse a viewport written as WIDTHxHEIGHT, e.g. 1280x800
+ */
+export function parseViewport(value: string): { width: number; height: number } {
+  const match = value.trim().match(/^(\d+)\s*[xX×]\s*(\d+)$/)
+  if (!match) {
+    throw new Error(`Viewport must look like 1280x800, got "${value}"`)
+  }
+  return { width: Number(match[1]), height: Number(match[2]) }
+}
@@ -0,0 +1,72 @@
+import { Page, Response } from 'playwright'
+import logger from '../utils/logger'
+
+/**
+ * Collects the JSON bodies of a page's responses whose URL contains the given path,
+ * so data can be read from the site's own API calls instead of the rendered DOM.
+ */
+export class ResponseCollector<T = unknown> {
+  private readonly page: Page
+  private readonly path: string
+  private bodies: T[] = []
+  private waiters: ((body: T) => void)[] = []
+
+  private readonly listener = (response: Response) => {
+    if (!response.url().includes(this.path)) return
+    response
+      .json()
+      .then((body: T) => {
+        const waiter = this.waiters.shift()
+        if (waiter) {
+          waiter(body)
+        } else {
+          this.bodies.push(body)
+        }
+      })
+      .catch((error) => logger.warn(`Failed to read response from ${response.url()}:`, error))
+  }
+
+  constructor(page: Page, path: string) {
+    this.page = page
+    this.path = path
+    page.on('response', this.listener)
+  }
+
+  /**
+   * The next body that has not been taken yet, or null if none arrives within timeout
+   */
+  next(timeout: number): Promise<T | null> {
+    const body = this.bodies.shift()
+    if (body !== undefined) {
+      return Promise.resolve(body)
+    }
+
+    return new Promise((resolve) => {
+      const waiter = (received: T) => {
+        clearTimeout(timer)
+        resolve(received)
+      }
+      const timer = setTimeout(() => {
+        this.waiters = this.waiters.filter((w) => w !== waiter)
+        resolve(null)
+      }, timeout)
+      this.waiters.push(waiter)
+    })
+  }
+
+  /**
+   * Drop bodies that arrived but were not taken, e.g. results made stale by changing the page's filters
+   */
+  clear(): void {
+    this.bodies = []
+  }
+
+  /**
+   * Stop listening, bodies that were not taken are dropped
+   */
+  dispose(): void {
+    this.page.off('response', this.listener)
+    this.bodies = []
+    this.waiters = []
+  }
+}
@@ -0,0 +1,67 @@
+import { Page } from 'playwright'
+import { RiskControlError } from '../errors'
+import { getSelectors, queryFirst } from '../tools/selectors'
+import logger from '../utils/logger'
+
+export interface PageSnapshot {
+  url: string
+  /** Visible text of the page */
+  text: string
+  /** Whether a captcha widget is on the page */
+  hasCaptcha: boolean
+}
+
+const RATE_LIMIT_TEXT = ['访问频繁', '访问频次异常', '操作频繁', '请求太频繁']
+const VERIFICATION_TEXT = ['安全验证', '请完成验证', '身份验证', '拖动滑块']
+// Block pages carry a line or two of text, a note that merely talks about 访问频繁 has much more
+const MAX_BLOCK_PAGE_TEXT = 1000
+
+/**
+ * Which kind of anti-bot page a snapshot shows, or null for a normal page
+ */
+export function classifyRiskControl(snapshot: PageSnapshot): RiskControlError | null {
+  const text = snapshot.text.length <= MAX_BLOCK_PAGE_TEXT ? snapshot.text : ''
+  if (snapshot.hasCaptcha || /captcha/i.test(snapshot.url)) {
+    return new RiskControlError(
+      'captcha',
+      'Xiaohongshu is showing a captcha. Open the site in a browser with this account, solve it, then try again'
+    )
+  }
+  if (RATE_LIMIT_TEXT.some((phrase) => text.includes(phrase))) {
+    return new RiskControlError(
+      'rate_limit',
+      'Xiaohongshu says requests are too frequent (访问频繁). Wait for the cooldown before trying again'
+    )
+  }
+  if (
+    /\/verify|verifyType|verify_type/i.test(snapshot.url) ||
+    VERIFICATION_TEXT.some((phrase) => text.includes(phrase))
+  ) {
+    return new RiskControlError(
+      'verification',
+      'Xiaohongshu asks to verify this account. Open the site in a browser with this account, complete the check, then try again'
+    )
+  }
+  return null
+}
+
+/**
+ * Look at the page for a captcha, verification or rate limit page. Never throws, a page that
+ * cannot be inspected is treated as normal.
+ */
+export async function detectRiskControl(page: Page): Promise<RiskControlError | null> {
+  try {
+    if (page.isClosed()) return null
+    const snapshot: PageSnapshot = {
+      url: page.url(),
+      text: await page.evaluate(() => document.body?.innerText || ''),
+      hasCaptcha: (await queryFirst(page, getSelectors().riskControl.captcha)) !== null
+    }
+    const detected = classifyRiskControl(snapshot)
+    if (detected) logger.warn(`Risk control page detected at ${snapshot.url}: ${detected.kind}`)
+    return detected
+  } catch (error) {
+    logger.debug('Could not inspect page for risk control:', error)
+    return null
+  }
+}
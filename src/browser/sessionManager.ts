@@ -0,0 +1,240 @@
+import { Browser, BrowserContext, Page } from 'playwright'
+import { AuthManager } from '../auth/authManager'
+import logger from '../utils/logger'
+import { stripUndefined } from '../utils/object'
+
+export interface SessionOptions {
+  /** Close the browser after this many milliseconds without any page in use */
+  idleTimeout?: number
+  /** How long a successful login check is trusted, in milliseconds */
+  loginCheckTtl?: number
+  /** Maximum number of idle pages kept open for reuse */
+  maxIdlePages?: number
+}
+
+const DEFAULT_OPTIONS: Required<SessionOptions> = {
+  idleTimeout: 5 * 60 * 1000,
+  loginCheckTtl: 10 * 60 * 1000,
+  maxIdlePages: 2
+}
+
+/**
+ * Keeps one browser and context alive across tool calls and hands out pages from a small pool.
+ * The browser is shut down after an idle period and relaunched transparently when it or a page dies.
+ */
+export class SessionManager {
+  private readonly authManager: AuthManager
+  private readonly options: Required<SessionOptions>
+  private browser: Browser | null = null
+  private context: BrowserContext | null = null
+  private starting: Promise<BrowserContext> | null = null
+  private closing: Promise<void> | null = null
+  private onDrained: (() => void) | null = null
+  private idlePages: Page[] = []
+  private leasedPages = new Set<Page>()
+  private idleTimer: NodeJS.Timeout | null = null
+  private loginCheckedAt: number | null = null
+
+  constructor(authManager: AuthManager, options: SessionOptions = {}) {
+    this.authManager = authManager
+    this.options = { ...DEFAULT_OPTIONS, ...stripUndefined(options) }
+  }
+
+  /**
+   * Lease a page from the pool, launching the browser if needed.
+   * Every leased page must be handed back with releasePage().
+   */
+  async acquirePage(): Promise<Page> {
+    // Pages opened during a shutdown would belong to the browser about to close, wait for the next one
+    while (this.closing) {
+      await this.closing
+    }
+    this.clearIdleTimer()
+
+    while (this.idlePages.length > 0) {
+      const page = this.idlePages.pop()!
+      if (!page.isClosed()) {
+        this.leasedPages.add(page)
+        logger.debug('Reusing pooled page')
+        return page
+      }
+    }
+
+    let page: Page
+    try {
+      page = await (await this.getContext()).newPage()
+    } catch (error) {
+      // The browser may have died between launches, retry once with a fresh one
+      logger.warn('Failed to open page, relaunching browser:', error)
+      const stale = this.browser
+      this.reset()
+      await closeBrowser(stale)
+      page = await (await this.getContext()).newPage()
+    }
+
+    page.on('crash', () => {
+      logger.error('Page crashed, dropping it from the pool')
+      this.discardPage(page)
+    })
+    page.on('close', () => this.discardPage(page))
+
+    this.leasedPages.add(page)
+    logger.info(`Opened new page (${this.leasedPages.size} in use)`)
+    return page
+  }
+
+  /**
+   * Return a page to the pool. Surplus pages are closed and the idle timer starts once nothing is in use.
+   */
+  async releasePage(page: Page): Promise<void> {
+    this.leasedPages.delete(page)
+
+    if (!page.isClosed()) {
+      if (this.idlePages.length < this.options.maxIdlePages && !this.closing) {
+        this.idlePages.push(page)
+      } else {
+        await page.close().catch((error) => logger.warn('Failed to close surplus page:', error))
+      }
+    }
+
+    if (this.leasedPages.size === 0) {
+      if (this.onDrained) {
+        this.onDrained()
+      } else {
+        this.startIdleTimer()
+      }
+    }
+  }
+
+  /**
+   * Run the login check unless a previous one succeeded within loginCheckTtl.
+   * Failed checks are never cached so a fresh login is picked up on the next call.
+   */
+  async ensureLoggedIn(page: Page, check: (page: Page) => Promise<boolean>): Promise<boolean> {
+    const now = Date.now()
+    if (this.loginCheckedAt !== null && now - this.loginCheckedAt < this.options.loginCheckTtl) {
+      logger.debug('Using cached login status')
+      return true
+    }
+
+    const isLoggedIn = await check(page)
+    this.loginCheckedAt = isLoggedIn ? now : null
+    return isLoggedIn
+  }
+
+  /**
+   * Forget the cached login status, e.g. after cookies were replaced.
+   */
+  invalidateLogin(): void {
+    this.loginCheckedAt = null
+  }
+
+  /**
+   * Load the saved cookies into the running context without closing pages other jobs are using.
+   */
+  async reloadCookies(): Promise<void> {
+    this.invalidateLogin()
+    if (this.context && this.browser?.isConnected()) {
+      const cookies = await this.authManager.getCookies()
+      logger.info(`Reloading ${cookies.length} cookies into the running session`)
+      await this.context.addCookies(cookies)
+    }
+  }
+
+  /**
+   * Close the browser and drop every pooled page. Pages in use are waited for, so running
+   * tasks finish first, and new ones wait until the browser is closed before launching another.
+   */
+  shutdown(): Promise<void> {
+    if (!this.closing) {
+      this.closing = this.close().finally(() => {
+        this.closing = null
+      })
+    }
+    return this.closing
+  }
+
+  private async getContext(): Promise<BrowserContext> {
+    if (this.context && this.browser?.isConnected()) {
+      return this.context
+    }
+    if (!this.starting) {
+      this.starting = this.launch().finally(() => {
+        this.starting = null
+      })
+    }
+    return this.starting
+  }
+
+  private async launch(): Promise<BrowserContext> {
+    logger.info('Starting browser session')
+    const browser = await this.authManager.getBrowser()
+    browser.once('disconnected', () => {
+      if (this.browser === browser) {
+        logger.warn('Browser disconnected, session will be relaunched on next use')
+        this.reset()
+      }
+    })
+
+    const storageState = await this.authManager.getStorageState()
+    logger.info(`Loading ${storageState.cookies.length} cookies`)
+    const context = await browser.newContext({ ...this.authManager.getContextOptions(), storageState })
+
+    this.browser = browser
+    this.context = context
+    return context
+  }
+
+  private async close(): Promise<void> {
+    logger.info('Shutting down browser session')
+    this.clearIdleTimer()
+    if (this.leasedPages.size > 0) {
+      logger.info(`Waiting for ${this.leasedPages.size} pages in use before closing the browser`)
+      await new Promise<void>((resolve) => {
+        this.onDrained = resolve
+      })
+      this.onDrained = null
+    }
+    const browser = this.browser
+    this.reset()
+    await closeBrowser(browser)
+  }
+
+  private reset(): void {
+    this.browser = null
+    this.context = null
+    this.idlePages = []
+    this.leasedPages.clear()
+    this.loginCheckedAt = null
+  }
+
+  private discardPage(page: Page): void {
+    this.idlePages = this.idlePages.filter((p) => p !== page)
+    if (this.leasedPages.delete(page) && this.leasedPages.size === 0) {
+      this.onDrained?.()
+    }
+  }
+
+  private startIdleTimer(): void {
+    this.clearIdleTimer()
+    if (!this.browser) return
+    this.idleTimer = setTimeout(() => {
+      logger.info(`Browser idle for ${this.options.idleTimeout}ms`)
+      this.shutdown()
+    }, this.options.idleTimeout)
+    this.idleTimer.unref()
+  }
+
+  private clearIdleTimer(): void {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer)
+      this.idleTimer = null
+    }
+  }
+}
+
+async function closeBrowser(browser: Browser | null): Promise<void> {
+  if (browser && browser.isConnected()) {
+    await browser.close().catch((error) => logger.warn('Failed to close browser:', error))
+  }
+}
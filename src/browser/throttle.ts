@@ -0,0 +1,135 @@
+import logger from '../utils/logger'
+import { RiskControlError } from '../errors'
+import { stripUndefined } from '../utils/object'
+
+export interface ThrottleOptions {
+  /** Maximum number of page loads started in any 60 second window */
+  requestsPerMinute?: number
+  /** Random pause before every page load, in milliseconds */
+  minDelay?: number
+  maxDelay?: number
+  /** Wait after the first consecutive failure, doubled after each further one, in milliseconds */
+  backoffBase?: number
+  maxBackoff?: number
+  /** How long page loads stay paused after the site showed a captcha or rate limit page, in milliseconds */
+  cooldown?: number
+}
+
+const DEFAULT_OPTIONS: Required<ThrottleOptions> = {
+  requestsPerMinute: 20,
+  minDelay: 500,
+  maxDelay: 1500,
+  backoffBase: 2000,
+  maxBackoff: 2 * 60 * 1000,
+  cooldown: 10 * 60 * 1000
+}
+
+const WINDOW = 60 * 1000
+
+/**
+ * Paces page loads across every tool sharing one session so the site's anti-bot measures are
+ * not triggered: a requests-per-minute budget, a jittered pause before each load, exponential
+ * backoff after failures, and a full stop for a cooldown once the site pushes back.
+ */
+export class Throttle {
+  private readonly options: Required<ThrottleOptions>
+  private startedAt: number[] = []
+  private failures = 0
+  private pausedUntil = 0
+  private pauseReason: RiskControlError | null = null
+  // Waiters are chained so each one reserves its slot before the next one looks at the window
+  private pending: Promise<void> = Promise.resolve()
+
+  constructor(options: ThrottleOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...stripUndefined(options) }
+  }
+
+  /**
+   * Milliseconds since the epoch until which page loads are refused, 0 when not paused
+   */
+  get pausedUntilTime(): number {
+    return this.pausedUntil > Date.now() ? this.pausedUntil : 0
+  }
+
+  /**
+   * Wait until a page load may start. Rejects right away with RiskControlError while paused.
+   */
+  acquire(): Promise<void> {
+    const turn = this.pending.then(() => this.waitForSlot())
+    // A rejected turn must not block the ones queued behind it
+    this.pending = turn.catch(() => undefined)
+    return turn
+  }
+
+  /**
+   * The last page load went through, clears the backoff
+   */
+  recordSuccess(): void {
+    this.failures = 0
+  }
+
+  /**
+   * The last page load failed, the next one waits longer
+   */
+  recordFailure(): void {
+    this.failures++
+  }
+
+  /**
+   * Refuse page loads until the cooldown expires, e.g. after a captcha was detected
+   */
+  pause(reason: RiskControlError, duration: number = this.options.cooldown): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + duration)
+    this.pauseReason = reason
+    logger.warn(`Pausing page loads until ${new Date(this.pausedUntil).toISOString()}: ${reason.message}`)
+  }
+
+  /**
+   * Lift a pause early, e.g. once the user has solved the captcha or logged in again
+   */
+  resume(): void {
+    if (this.pausedUntil) logger.info('Resuming page loads')
+    this.pausedUntil = 0
+    this.pauseReason = null
+    this.failures = 0
+  }
+
+  private async waitForSlot(): Promise<void> {
+    this.checkPaused()
+
+    const backoff = this.failures
+      ? Math.min(this.options.backoffBase * 2 ** (this.failures - 1), this.options.maxBackoff)
+      : 0
+    const jitter = this.options.minDelay + Math.random() * (this.options.maxDelay - this.options.minDelay)
+
+    let now = Date.now()
+    this.startedAt = this.startedAt.filter((time) => now - time < WINDOW)
+    const windowWait =
+      this.startedAt.length >= this.options.requestsPerMinute
+        ? this.startedAt[this.startedAt.length - this.options.requestsPerMinute] + WINDOW - now
+        : 0
+
+    const wait = Math.max(backoff, windowWait, 0) + jitter
+    if (backoff || windowWait > 0) {
+      logger.info(`Throttling page load for ${Math.round(wait)}ms (${this.failures} recent failures)`)
+    }
+    if (wait > 0) {
+      await new Promise((resolve) => setTimeout(resolve, wait))
+    }
+
+    // A pause may have started while this load was waiting
+    this.checkPaused()
+    now = Date.now()
+    this.startedAt.push(now)
+  }
+
+  private checkPaused(): void {
+    if (this.pausedUntil <= Date.now()) return
+    const reason = this.pauseReason
+    throw new RiskControlError(
+      reason?.kind ?? 'rate_limit',
+      `${reason?.message ?? 'Page loads are paused'}. Paused until ${new Date(this.pausedUntil).toISOString()}`,
+      this.pausedUntil
+    )
+  }
+}
@@ -1,137 +1,873 @@
 #!/usr/bin/env node
 
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js'
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import { z } from 'zod'
-import { AuthManager } from './auth/authManager'
-import { RedNoteTools } from './tools/rednoteTools'
+import { AuthManager, AuthOptions } from './auth/authManager'
+import { BrowserProfile, parseViewport } from './browser/browserProfile'
+import { LoginSession, LoginState } from './auth/loginSession'
+import { DEFAULT_PROFILE, profileCookiePath, validateProfileName } from './auth/profiles'
+import { readCookieKey } from './auth/cookieCrypto'
+import { Comment, Note, RedNoteTools } from './tools/rednoteTools'
+import { NoteDetail } from './tools/noteDetail'
+import { TaskScheduler } from './tools/taskScheduler'
+import { AccountPool } from './tools/accounts'
+import { fetchNotesBatch } from './tools/noteBatch'
+import { parseSearchFilters, parseSearchMode, SearchNoteType, SearchPublishTime, SearchSort } from './tools/searchFeed'
+import { RecentNotes } from './tools/recentNotes'
+import { NoteStore } from './tools/noteStore'
+import { MCP_PATH, SSE_PATH, startHttpServer } from './httpServer'
 import logger, { LOGS_DIR, packLogs } from './utils/logger'
+import { describeError } from './errors'
+import { Config, configKeys, configPath, getConfig, setConfigValue } from './config'
 import { exec } from 'child_process'
 import { promisify } from 'util'
 import { createStdioLogger } from './utils/stdioLogger'
+import { renderQrCodeForTerminal } from './utils/qrcode'
+import { Column, EXPORT_FORMATS, formatRows, parseExportFormat } from './utils/exportFormat'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
 
 const execAsync = promisify(exec)
 
-const tools = new RedNoteTools()
+// Defaults, ~/.mcp/rednote/config.json, REDNOTE_* environment variables and flags, in rising precedence
+const config = loadConfigOrExit()
+
+/**
+ * The effective config, or a readable message and exit code 1 when it is invalid
+ */
+function loadConfigOrExit(): Config {
+  try {
+    return getConfig()
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error)
+    process.exit(1)
+  }
+}
+
+const concurrency = config.session.maxConcurrency
+
+const store = new NoteStore({
+  path: path.join(config.paths.dataDir, 'notes.jsonl'),
+  ttl: config.session.cacheTtl * 1000
+})
+
+/**
+ * Cookie jar, browser and login settings of an account
+ */
+function authOptions(account: string): AuthOptions {
+  return {
+    cookiePath: profileCookiePath(account, config.paths.dataDir),
+    headless: config.browser.headless,
+    browser: browserProfile(),
+    storageState: config.browser.storage === 'storageState',
+    encryptionKey: readCookieKey(config.encryption.keyFile),
+    expiryWarning: config.accounts.expiryWarning * 1000,
+    loginTimeout: config.timeouts.login * 1000,
+    loginRetries: config.timeouts.loginRetries
+  }
+}
+
+/**
+ * Launch and context settings from the browser section of the config
+ */
+function browserProfile(): BrowserProfile {
+  const browser = config.browser
+  return {
+    proxy: browser.proxy
+      ? {
+          server: browser.proxy,
+          bypass: browser.proxyBypass,
+          username: browser.proxyUsername,
+          password: browser.proxyPassword
+        }
+      : undefined,
+    userAgent: browser.userAgent,
+    viewport: browser.viewport ? parseViewport(browser.viewport) : undefined,
+    locale: browser.locale,
+    timezoneId: browser.timezone,
+    executablePath: browser.executablePath,
+    channel: browser.channel,
+    args: browser.args
+  }
+}
+
+// One set of tools per named account, created the first time the account is used
+const accounts = new AccountPool({
+  active: config.accounts.active,
+  root: config.paths.dataDir,
+  createTools: (account) =>
+    new RedNoteTools({
+      auth: authOptions(account),
+      session: {
+        idleTimeout: config.session.idleTimeout * 1000,
+        maxIdlePages: concurrency
+      },
+      mediaDir: config.paths.mediaDir,
+      store,
+      throttle: {
+        requestsPerMinute: config.throttle.requestsPerMinute,
+        cooldown: config.throttle.cooldown * 1000
+      },
+      pageTimeout: config.timeouts.page * 1000,
+      shortLinkTimeout: config.timeouts.shortLink * 1000,
+      delayScale: config.delays.scale
+    })
+})
+
+const accountArg = z
+  .string()
+  .optional()
+  .describe('使用的账号名，默认为当前账号；不指定时，当前账号被风控会自动换用其他已登录的账号')
+
+// Every tool call goes through the scheduler so parallel requests never share a page
+const scheduler = new TaskScheduler({
+  concurrency,
+  maxQueueSize: config.session.maxQueue,
+  timeout: config.timeouts.task * 1000
+})
 
 const name = 'rednote'
 const description =
   'A friendly tool to help you access and interact with Xiaohongshu (RedNote) content through Model Context Protocol.'
 const version = '0.2.2'
 
-// Create server instance
-const server = new McpServer({
-  name,
-  version,
-  protocolVersion: '2024-11-05',
-  capabilities: {
-    tools: true,
-    sampling: {},
-    roots: {
-      listChanged: true
-    }
+// Notes fetched in this session, exposed as rednote:// resources
+const recentNotes = new RecentNotes()
+
+// Servers of the connected clients, one per session
+const servers = new Set<McpServer>()
+
+/**
+ * Tell the connected clients that the list of rednote:// resources changed
+ */
+function notifyResourcesChanged(changed: boolean): void {
+  if (!changed) return
+  for (const server of servers) {
+    server.server.sendResourceListChanged().catch((error) => logger.debug('Skipped resource list notification:', error))
   }
-})
+}
 
-// Register tools
-server.tool(
-  'search_notes',
-  '根据关键词搜索笔记',
-  {
-    keywords: z.string().describe('搜索关键词'),
-    limit: z.number().optional().describe('返回结果数量限制')
-  },
-  async ({ keywords, limit = 10 }: { keywords: string; limit?: number }) => {
-    logger.info(`Searching notes with keywords: ${keywords}, limit: ${limit}`)
-    try {
-      const notes = await tools.searchNotes(keywords, limit)
-      logger.info(`Found ${notes.length} notes`)
-      return {
-        content: notes.map((note) => ({
-          type: 'text',
-          text: `标题: ${note.title}\n作者: ${note.author}\n内容: ${note.content}\n点赞: ${note.likes}\n评论: ${note.comments}\n链接: ${note.url}\n---`
-        }))
+/**
+ * Render labelled fields one per line, leaving out the ones that are not set
+ */
+function formatFields(fields: [string, unknown][]): string {
+  const lines = fields
+    .filter(([, value]) => value !== undefined && value !== null && value !== '')
+    .map(([label, value]) => `${label}: ${value}`)
+  return `${lines.join('\n')}\n---`
+}
+
+/**
+ * Failed tool call as the client should see it: a stable code and what to do about it
+ */
+function errorResult(error: unknown) {
+  const { code, message, suggestion } = describeError(error)
+  return {
+    isError: true,
+    content: [{ type: 'text' as const, text: JSON.stringify({ error: { code, message, suggestion } }) }]
+  }
+}
+
+/**
+ * One note from a list of results, as returned by search_notes and list_user_notes
+ */
+function formatNote(note: Note): string {
+  return formatFields([
+    ['ID', note.id],
+    ['类型', note.type && (note.type === 'video' ? '视频' : '图文')],
+    ['标题', note.title],
+    ['作者', note.author],
+    ['作者 ID', note.authorId],
+    ['内容', note.content],
+    ['点赞', note.likes],
+    ['收藏', note.collects],
+    ['评论', note.comments],
+    ['发布时间', note.publishTime],
+    ['封面', note.cover],
+    ['链接', note.url]
+  ])
+}
+
+// Columns of the csv and Markdown output of the search, note and comments commands
+const NOTE_COLUMNS: Column<Note>[] = [
+  { header: 'id', value: (note) => note.id },
+  { header: 'type', value: (note) => note.type },
+  { header: 'title', value: (note) => note.title },
+  { header: 'author', value: (note) => note.author },
+  { header: 'authorId', value: (note) => note.authorId },
+  { header: 'likes', value: (note) => note.likes },
+  { header: 'collects', value: (note) => note.collects },
+  { header: 'comments', value: (note) => note.comments },
+  { header: 'publishTime', value: (note) => note.publishTime },
+  { header: 'url', value: (note) => note.url }
+]
+
+const NOTE_DETAIL_COLUMNS: Column<NoteDetail>[] = [
+  { header: 'noteId', value: (note) => note.noteId },
+  { header: 'type', value: (note) => note.type },
+  { header: 'title', value: (note) => note.title },
+  { header: 'content', value: (note) => note.content },
+  { header: 'tags', value: (note) => note.tags },
+  { header: 'author', value: (note) => note.author },
+  { header: 'authorId', value: (note) => note.authorId },
+  { header: 'likes', value: (note) => note.likes },
+  { header: 'collects', value: (note) => note.collects },
+  { header: 'comments', value: (note) => note.comments },
+  { header: 'shares', value: (note) => note.shares },
+  { header: 'publishTime', value: (note) => note.publishTime },
+  { header: 'ipLocation', value: (note) => note.ipLocation },
+  { header: 'url', value: (note) => note.url }
+]
+
+const COMMENT_COLUMNS: Column<Comment>[] = [
+  { header: 'id', value: (comment) => comment.id },
+  { header: 'parentId', value: (comment) => comment.parentId },
+  { header: 'author', value: (comment) => comment.author },
+  { header: 'authorId', value: (comment) => comment.authorId },
+  { header: 'replyTo', value: (comment) => comment.replyTo?.author },
+  { header: 'content', value: (comment) => comment.content },
+  { header: 'likes', value: (comment) => comment.likes },
+  { header: 'time', value: (comment) => comment.time },
+  { header: 'ipLocation', value: (comment) => comment.ipLocation }
+]
+
+/**
+ * Print command output to stdout, or save it when --out was given
+ */
+function writeOutput(output: string, out?: string): void {
+  if (out) {
+    fs.writeFileSync(out, output)
+    console.error(`结果已保存到: ${out}`)
+  } else {
+    process.stdout.write(output)
+  }
+}
+
+/**
+ * Read a count option such as --limit, rejecting anything but a whole number above zero
+ */
+function parsePositiveInteger(value: string, option: string): number {
+  const parsed = Number(value)
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`${option} must be a whole number above 0, got "${value}"`)
+  }
+  return parsed
+}
+
+/**
+ * Report a failed command on stderr with the same code and suggestion tool calls return, then exit with 1
+ */
+async function failCommand(error: unknown): Promise<never> {
+  await accounts.cleanup().catch((cleanupError) => logger.warn('Failed to close the browser:', cleanupError))
+  const { code, message, suggestion } = describeError(error)
+  console.error(`错误 [${code}]: ${message}`)
+  console.error(suggestion)
+  process.exit(1)
+}
+
+// Each account scans its own QR code when logging in
+const loginSessions = new Map<string, LoginSession>()
+
+function loginSessionFor(account: string): LoginSession {
+  let session = loginSessions.get(account)
+  if (!session) {
+    session = new LoginSession(() => new AuthManager(authOptions(account)))
+    loginSessions.set(account, session)
+  }
+  return session
+}
+
+/**
+ * Build an MCP server with every tool and resource registered. Stdio serves a single one, HTTP
+ * creates one per client session, all of them sharing the accounts, scheduler and stores above.
+ */
+function createServer(): McpServer {
+  const server = new McpServer(
+    {
+      name,
+      version,
+      protocolVersion: '2024-11-05',
+      capabilities: {
+        tools: true,
+        sampling: {},
+        roots: {
+          listChanged: true
+        }
+      }
+    },
+    { capabilities: { resources: { listChanged: true } } }
+  )
+  servers.add(server)
+  server.server.onclose = () => servers.delete(server)
+
+  // Register tools
+  server.tool(
+    'search_notes',
+    '根据关键词搜索笔记',
+    {
+      keywords: z.string().describe('搜索关键词'),
+      limit: z.number().optional().describe('返回结果数量限制，会自动向下滚动加载直到达到该数量'),
+      mode: z
+        .enum(['api', 'click'])
+        .optional()
+        .describe('搜索方式：api 直接读取搜索接口返回的数据（快，默认），click 逐条打开笔记抓取（慢，包含正文）'),
+      fetch_details: z.boolean().optional().describe('api 模式下是否逐条打开笔记补充正文和标签，默认 false'),
+      sort: z
+        .enum(['general', 'latest', 'most_liked', 'most_commented', 'most_collected'])
+        .optional()
+        .describe('排序方式：综合（默认）、最新、最多点赞、最多评论、最多收藏'),
+      note_type: z.enum(['all', 'video', 'image']).optional().describe('笔记类型：不限（默认）、视频、图文'),
+      publish_time: z
+        .enum(['all', 'day', 'week', 'half_year'])
+        .optional()
+        .describe('发布时间：不限（默认）、一天内、一周内、半年内'),
+      cursor: z.string().optional().describe('上一次搜索返回的 cursor，用于继续获取后面的结果，需使用相同的筛选条件'),
+      account: accountArg
+    },
+    async ({
+      keywords,
+      limit = 10,
+      mode,
+      fetch_details,
+      sort,
+      note_type,
+      publish_time,
+      cursor,
+      account
+    }: {
+      keywords: string
+      limit?: number
+      mode?: 'api' | 'click'
+      fetch_details?: boolean
+      sort?: SearchSort
+      note_type?: SearchNoteType
+      publish_time?: SearchPublishTime
+      cursor?: string
+      account?: string
+    }) => {
+      logger.info(`Searching notes with keywords: ${keywords}, limit: ${limit}`)
+      try {
+        const filters = { sort, noteType: note_type, publishTime: publish_time }
+        const result = await scheduler.run('search_notes', () =>
+          accounts.run(account, (tools) =>
+            tools.searchNotes(keywords, limit, { mode, fetchDetails: fetch_details, filters, cursor })
+          )
+        )
+        logger.info(`Found ${result.notes.length} notes`)
+        return {
+          content: [
+            ...result.notes.map((note) => ({ type: 'text' as const, text: formatNote(note) })),
+            {
+              type: 'text' as const,
+              text: result.hasMore
+                ? `还有更多结果，传入 cursor: ${result.cursor} 继续获取`
+                : `没有更多结果了，已到达「${keywords}」搜索结果的末尾（本次返回 ${result.notes.length} 条）`
+            }
+          ]
+        }
+      } catch (error) {
+        logger.error('Error searching notes:', error)
+        return errorResult(error)
       }
-    } catch (error) {
-      logger.error('Error searching notes:', error)
-      throw error
     }
-  }
-)
-
-server.tool(
-  'get_note_content',
-  '获取笔记内容',
-  {
-    url: z.string().describe('笔记 URL')
-  },
-  async ({ url }: { url: string }) => {
-    logger.info(`Getting note content for URL: ${url}`)
-    try {
-      const note = await tools.getNoteContent(url)
-      logger.info(`Successfully retrieved note: ${note.title}`)
+  )
+
+  server.tool(
+    'get_note_content',
+    '获取笔记内容',
+    {
+      url: z.string().describe('笔记 URL、分享文本、xhslink 短链接或笔记 ID'),
+      force_refresh: z.boolean().optional().describe('忽略本地缓存，重新从小红书获取，默认 false'),
+      account: accountArg
+    },
+    async ({ url, force_refresh, account }: { url: string; force_refresh?: boolean; account?: string }) => {
+      logger.info(`Getting note content for URL: ${url}`)
+      try {
+        const note = await scheduler.run('get_note_content', () =>
+          accounts.run(account, (tools) => tools.getNoteContent(url, { forceRefresh: force_refresh }))
+        )
+        logger.info(`Successfully retrieved note: ${note.title}`)
+        if (note.noteId) {
+          notifyResourcesChanged(recentNotes.addNote(note.noteId, note))
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(note)
+            }
+          ]
+        }
+      } catch (error) {
+        logger.error('Error getting note content:', error)
+        return errorResult(error)
+      }
+    }
+  )
+
+  server.tool(
+    'get_notes_batch',
+    '批量获取多篇笔记内容，在同一个浏览器中并行打开多个页面，单篇失败不影响其他笔记',
+    {
+      urls: z
+        .array(z.string())
+        .min(1)
+        .max(100)
+        .describe('笔记 URL、分享文本、xhslink 短链接或笔记 ID 的列表，最多 100 个'),
+      concurrency: z
+        .number()
+        .optional()
+        .describe(`同时打开的页面数量，默认 2，最多 ${concurrency}（由 REDNOTE_MAX_CONCURRENCY 决定）`),
+      force_refresh: z.boolean().optional().describe('忽略本地缓存，重新从小红书获取，默认 false'),
+      account: accountArg
+    },
+    async ({
+      urls,
+      concurrency: requested,
+      force_refresh,
+      account
+    }: {
+      urls: string[]
+      concurrency?: number
+      force_refresh?: boolean
+      account?: string
+    }) => {
+      logger.info(`Getting ${urls.length} notes in a batch`)
+      try {
+        const pages = Math.max(1, Math.min(requested ?? 2, concurrency))
+        // Every note takes its own scheduler slot, so the batch shares the page limit with other calls
+        const results = await fetchNotesBatch(
+          urls,
+          (url) =>
+            scheduler.run('get_notes_batch', () =>
+              accounts.run(account, (tools) => tools.getNoteContent(url, { forceRefresh: force_refresh }))
+            ),
+          { concurrency: pages }
+        )
+        let changed = false
+        for (const result of results) {
+          if (result.error === undefined && result.note.noteId) {
+            changed = recentNotes.addNote(result.note.noteId, result.note) || changed
+          }
+        }
+        notifyResourcesChanged(changed)
+
+        const failed = results.filter((result) => result.error !== undefined).length
+        logger.info(`Batch finished: ${results.length - failed} succeeded, ${failed} failed`)
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ succeeded: results.length - failed, failed, results })
+            }
+          ]
+        }
+      } catch (error) {
+        logger.error('Error getting notes batch:', error)
+        return errorResult(error)
+      }
+    }
+  )
+
+  server.tool(
+    'get_note_comments',
+    '获取笔记评论，返回包含楼中楼回复的评论树',
+    {
+      url: z.string().describe('笔记 URL、分享文本、xhslink 短链接或笔记 ID'),
+      limit: z.number().optional().describe('最多返回的一级评论数量，默认 20，会自动滚动加载；回复不计入数量'),
+      include_replies: z.boolean().optional().describe('是否展开并返回每条评论下的全部回复，默认 false'),
+      force_refresh: z.boolean().optional().describe('忽略本地缓存，重新从小红书获取，默认 false'),
+      account: accountArg
+    },
+    async ({
+      url,
+      limit,
+      include_replies,
+      force_refresh,
+      account
+    }: {
+      url: string
+      limit?: number
+      include_replies?: boolean
+      force_refresh?: boolean
+      account?: string
+    }) => {
+      logger.info(`Getting comments for URL: ${url}`)
+      try {
+        const { noteId, comments } = await scheduler.run('get_note_comments', () =>
+          accounts.run(account, async (tools) => {
+            const reference = await tools.resolveNote(url)
+            const comments = await tools.getNoteComments(reference.url, {
+              limit,
+              includeReplies: include_replies,
+              forceRefresh: force_refresh
+            })
+            return { noteId: reference.noteId, comments }
+          })
+        )
+        logger.info(`Found ${comments.length} comments`)
+        notifyResourcesChanged(recentNotes.addComments(noteId, comments))
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(comments)
+            }
+          ]
+        }
+      } catch (error) {
+        logger.error('Error getting note comments:', error)
+        return errorResult(error)
+      }
+    }
+  )
+
+  server.tool(
+    'download_note_media',
+    '下载笔记的全部图片和视频到本地（以内容 sha256 命名并生成 manifest.json），可选直接返回图片内容',
+    {
+      url: z.string().describe('笔记 URL、分享文本、xhslink 短链接或笔记 ID'),
+      inline_images: z.boolean().optional().describe('是否在结果中直接返回图片，默认 false'),
+      max_image_bytes: z
+        .number()
+        .optional()
+        .describe('返回的每张图片的大小上限（字节），超出时会缩小后再返回，默认 1048576'),
+      account: accountArg
+    },
+    async ({
+      url,
+      inline_images,
+      max_image_bytes,
+      account
+    }: {
+      url: string
+      inline_images?: boolean
+      max_image_bytes?: number
+      account?: string
+    }) => {
+      logger.info(`Downloading media for URL: ${url}`)
+      try {
+        const { manifest, manifestPath, images } = await scheduler.run('download_note_media', () =>
+          accounts.run(account, (tools) =>
+            tools.downloadNoteMedia(url, { inlineImages: inline_images, maxImageBytes: max_image_bytes })
+          )
+        )
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: formatFields([
+                ['笔记', manifest.title],
+                ['目录', path.dirname(manifestPath)],
+                ['清单', manifestPath],
+                ['图片', manifest.files.filter((file) => file.type === 'image').length],
+                ['视频', manifest.files.filter((file) => file.type === 'video').length],
+                ['下载失败', manifest.failed.map((item) => `${item.url} (${item.error})`).join('\n') || undefined]
+              ])
+            },
+            ...images.map((image) => ({ type: 'image' as const, data: image.data, mimeType: image.mimeType }))
+          ]
+        }
+      } catch (error) {
+        logger.error('Error downloading note media:', error)
+        return errorResult(error)
+      }
+    }
+  )
+
+  server.tool(
+    'get_user_profile',
+    '获取用户主页信息：昵称、小红书号、简介、关注/粉丝/获赞与收藏数和标签',
+    {
+      user: z.string().describe('用户主页 URL 或用户 ID，可以使用笔记详情中的 authorUrl'),
+      account: accountArg
+    },
+    async ({ user, account }: { user: string; account?: string }) => {
+      logger.info(`Getting user profile: ${user}`)
+      try {
+        const profile = await scheduler.run('get_user_profile', () =>
+          accounts.run(account, (tools) => tools.getUserProfile(user))
+        )
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(profile)
+            }
+          ]
+        }
+      } catch (error) {
+        logger.error('Error getting user profile:', error)
+        return errorResult(error)
+      }
+    }
+  )
+
+  server.tool(
+    'list_user_notes',
+    '列出用户发布的笔记，支持通过 cursor 分页',
+    {
+      user: z.string().describe('用户主页 URL 或用户 ID'),
+      limit: z.number().optional().describe('返回结果数量限制，默认 20，会自动向下滚动加载'),
+      cursor: z.string().optional().describe('上一次调用返回的 cursor，用于继续获取后面的笔记'),
+      account: accountArg
+    },
+    async ({
+      user,
+      limit = 20,
+      cursor,
+      account
+    }: {
+      user: string
+      limit?: number
+      cursor?: string
+      account?: string
+    }) => {
+      logger.info(`Listing notes of user: ${user}, limit: ${limit}`)
+      try {
+        const result = await scheduler.run('list_user_notes', () =>
+          accounts.run(account, (tools) => tools.listUserNotes(user, limit, { cursor }))
+        )
+        logger.info(`Found ${result.notes.length} notes`)
+        return {
+          content: [
+            ...result.notes.map((note) => ({ type: 'text' as const, text: formatNote(note) })),
+            {
+              type: 'text' as const,
+              text: result.hasMore
+                ? `还有更多笔记，传入 cursor: ${result.cursor} 继续获取`
+                : `没有更多笔记了（本次返回 ${result.notes.length} 条）`
+            }
+          ]
+        }
+      } catch (error) {
+        logger.error('Error listing user notes:', error)
+        return errorResult(error)
+      }
+    }
+  )
+
+  server.resource(
+    'note',
+    new ResourceTemplate('rednote://note/{noteId}', {
+      list: async () => ({
+        resources: recentNotes
+          .list()
+          .filter((entry) => entry.note)
+          .map((entry) => ({
+            uri: `rednote://note/${entry.noteId}`,
+            name: entry.note!.title || entry.noteId,
+            description: `${entry.note!.author} 的笔记`,
+            mimeType: 'application/json'
+          }))
+      })
+    }),
+    { description: '已获取过的笔记详情（get_note_content 的结果）', mimeType: 'application/json' },
+    async (uri, { noteId }) => {
+      const note = recentNotes.get(String(noteId))?.note
+      if (!note) {
+        throw new Error(`Note ${noteId} has not been fetched in this session, call get_note_content first`)
+      }
+      return { contents: [{ uri: uri.href, mimeType: 'application/json', text: JSON.stringify(note) }] }
+    }
+  )
+
+  server.resource(
+    'note-comments',
+    new ResourceTemplate('rednote://note/{noteId}/comments', {
+      list: async () => ({
+        resources: recentNotes
+          .list()
+          .filter((entry) => entry.comments)
+          .map((entry) => ({
+            uri: `rednote://note/${entry.noteId}/comments`,
+            name: `${entry.note?.title || entry.noteId} 的评论`,
+            mimeType: 'application/json'
+          }))
+      })
+    }),
+    { description: '已获取过的笔记评论（get_note_comments 的结果）', mimeType: 'application/json' },
+    async (uri, { noteId }) => {
+      const comments = recentNotes.get(String(noteId))?.comments
+      if (!comments) {
+        throw new Error(
+          `Comments of note ${noteId} have not been fetched in this session, call get_note_comments first`
+        )
+      }
+      return { contents: [{ uri: uri.href, mimeType: 'application/json', text: JSON.stringify(comments) }] }
+    }
+  )
+
+  server.tool(
+    'login',
+    '登录小红书账号，返回登录二维码，扫码后再次调用以确认登录结果',
+    {
+      account: z.string().optional().describe('登录到哪个账号名下，默认为当前账号；使用新的账号名即可添加账号')
+    },
+    async ({ account }: { account?: string }) => {
+      let accountName: string
+      try {
+        accountName = validateProfileName(account || accounts.active)
+      } catch (error) {
+        return errorResult(error)
+      }
+      logger.info(`Starting login process for account ${accountName}`)
+      let state: LoginState
+      try {
+        state = await loginSessionFor(accountName).poll()
+      } catch (error) {
+        logger.error('Login failed:', error)
+        return errorResult(error)
+      }
+
+      if (state.status === 'waiting') {
+        logger.info('Returning login QR code')
+        return {
+          content: [
+            {
+              type: 'text',
+              text: '请使用小红书 App 扫描下方二维码登录，扫码完成后再次调用 login 工具确认登录结果。'
+            },
+            {
+              type: 'image',
+              data: state.qrCode.toString('base64'),
+              mimeType: state.mimeType
+            }
+          ]
+        }
+      }
 
+      if (state.status === 'failed') {
+        logger.error('Login failed:', state.error)
+        return errorResult(state.error)
+      }
+
+      logger.info('Login successful')
+      try {
+        // Let the running session pick up the new cookies
+        await accounts.get(accountName).reloadCookies()
+      } catch (error) {
+        logger.error('Failed to reload cookies after login:', error)
+        return errorResult(error)
+      }
       return {
         content: [
           {
             type: 'text',
-            text: JSON.stringify(note)
+            text: `登录成功！账号 ${accountName} 的 Cookie 已保存。`
           }
         ]
       }
-    } catch (error) {
-      logger.error('Error getting note content:', error)
-      throw error
     }
-  }
-)
-
-server.tool(
-  'get_note_comments',
-  '获取笔记评论',
-  {
-    url: z.string().describe('笔记 URL')
-  },
-  async ({ url }: { url: string }) => {
-    logger.info(`Getting comments for URL: ${url}`)
-    try {
-      const comments = await tools.getNoteComments(url)
-      logger.info(`Found ${comments.length} comments`)
-      return {
-        content: comments.map((comment) => ({
-          type: 'text',
-          text: `作者: ${comment.author}\n内容: ${comment.content}\n点赞: ${comment.likes}\n时间: ${comment.time}\n---`
-        }))
+  )
+
+  server.tool(
+    'logout',
+    '退出账号登录：关闭该账号的浏览器，删除保存的 Cookie 和浏览器存储，之后需要调用 login 重新扫码',
+    {
+      account: z.string().optional().describe('要退出的账号名，默认为当前账号')
+    },
+    async ({ account }: { account?: string }) => {
+      try {
+        const name = await scheduler.run('logout', () => accounts.logout(account))
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `已退出账号 ${name}，保存的登录信息已删除。`
+            }
+          ]
+        }
+      } catch (error) {
+        logger.error('Error logging out:', error)
+        return errorResult(error)
       }
-    } catch (error) {
-      logger.error('Error getting note comments:', error)
-      throw error
     }
-  }
-)
+  )
 
-// Add login tool
-server.tool('login', '登录小红书账号', {}, async () => {
-  logger.info('Starting login process')
-  const authManager = new AuthManager()
-  try {
-    await authManager.login()
-    logger.info('Login successful')
+  server.tool(
+    'check_login',
+    '检查账号的登录状态：是否保存了 Cookie、登录何时过期、登录的是哪个用户以及上次确认登录有效的时间',
+    {
+      account: z.string().optional().describe('要检查的账号名，默认为当前账号'),
+      verify: z
+        .boolean()
+        .optional()
+        .describe('是否打开一次小红书首页确认登录仍然有效，默认 true；为 false 时只读取本地保存的信息')
+    },
+    async ({ account, verify = true }: { account?: string; verify?: boolean }) => {
+      try {
+        const name = account || accounts.active
+        const status = await scheduler.run('check_login', () => accounts.get(name).checkLogin({ verify }))
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ account: name, ...status })
+            }
+          ]
+        }
+      } catch (error) {
+        logger.error('Error checking login:', error)
+        return errorResult(error)
+      }
+    }
+  )
+
+  server.tool('list_accounts', '列出已登录的账号、当前使用的账号以及被风控暂停的账号', {}, async () => {
     return {
       content: [
         {
           type: 'text',
-          text: '登录成功！Cookie 已保存。'
+          text: JSON.stringify(accounts.list())
         }
       ]
     }
-  } catch (error) {
-    logger.error('Login failed:', error)
-    throw error
-  } finally {
-    await authManager.cleanup()
+  })
+
+  server.tool(
+    'switch_account',
+    '切换当前账号，之后未指定 account 的调用都使用该账号',
+    {
+      account: z.string().describe('已登录的账号名，可以通过 list_accounts 查看')
+    },
+    async ({ account }: { account: string }) => {
+      try {
+        accounts.switch(account)
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `已切换到账号 ${account}`
+            }
+          ]
+        }
+      } catch (error) {
+        logger.error('Error switching account:', error)
+        return errorResult(error)
+      }
+    }
+  )
+
+  return server
+}
+
+/**
+ * Log a warning for every account whose login has expired or is about to, so it can be renewed in time
+ */
+async function warnAboutExpiringLogins(): Promise<void> {
+  for (const { name } of accounts.list()) {
+    try {
+      const status = await accounts.get(name).checkLogin()
+      if (status.warning) logger.warn(`Account ${name}: ${status.warning}`)
+    } catch (error) {
+      logger.warn(`Could not read the login status of account ${name}:`, error)
+    }
   }
-})
+}
 
 // Start the server
 async function main() {
@@ -141,15 +877,46 @@ async function main() {
   const stopLogging = createStdioLogger(`${LOGS_DIR}/stdio.log`)
 
   const transport = new StdioServerTransport()
-  await server.connect(transport)
+  await createServer().connect(transport)
   logger.info('RedNote MCP Server running on stdio')
 
+  await warnAboutExpiringLogins()
+
   // Cleanup on process exit
   process.on('exit', () => {
     stopLogging()
   })
 }
 
+/**
+ * Serve every client over HTTP from this one process, so the whole team shares one logged-in browser
+ */
+async function serveHttp(options: { port: number; host?: string; token?: string }): Promise<void> {
+  logger.info('Starting RedNote MCP Server over HTTP')
+  if (!options.token) {
+    logger.warn('No http.token configured (REDNOTE_HTTP_TOKEN), anyone who can reach the server can use it')
+  }
+
+  const httpServer = await startHttpServer({
+    ...options,
+    createServer,
+    version,
+    health: () => ({ scheduler: scheduler.stats, accounts: accounts.list() })
+  })
+  console.error(`RedNote MCP Server listening on ${httpServer.url}${MCP_PATH} (SSE: ${httpServer.url}${SSE_PATH})`)
+
+  await warnAboutExpiringLogins()
+
+  const shutdown = async () => {
+    logger.info('Shutting down HTTP server')
+    await httpServer.close()
+    await accounts.cleanup()
+    process.exit(0)
+  }
+  process.once('SIGINT', shutdown)
+  process.once('SIGTERM', shutdown)
+}
+
 // 检查是否在 stdio 模式下运行
 if (process.argv.includes('--stdio')) {
   main().catch((error) => {
@@ -161,15 +928,85 @@ if (process.argv.includes('--stdio')) {
   const program = new Command()
 
   program.name(name).description(description).version(version)
+  // Read by the config loader straight from argv, declared here so commander accepts them
+  program.option('--config <path>', 'Config file (default: REDNOTE_CONFIG or ~/.mcp/rednote/config.json)')
+  program.option('--media-dir <dir>', 'Directory download_note_media saves to (default: ~/.mcp/rednote/media)')
+  program.option('--log-level <level>', 'error, warn, info or debug (default: info)')
+
+  const configCommand = program.command('config').description('Show or change the settings in the config file')
+
+  configCommand
+    .command('show')
+    .description('Print the effective settings after the config file, environment variables and flags')
+    .action(() => {
+      console.error(`配置文件: ${configPath()}`)
+      // Keep the token and proxy password out of terminals and screenshots
+      const shown = {
+        ...config,
+        browser: { ...config.browser, proxyPassword: config.browser.proxyPassword && '********' },
+        http: { ...config.http, token: config.http.token && '********' }
+      }
+      console.log(JSON.stringify(shown, null, 2))
+    })
+
+  configCommand
+    .command('set')
+    .description('Write one setting to the config file, e.g. `config set timeouts.page 60`')
+    .argument('<key>', `One of: ${configKeys().join(', ')}`)
+    .argument('<value>', 'New value, durations are in seconds')
+    .action((key: string, value: string) => {
+      const file = configPath()
+      try {
+        setConfigValue(file, key, value)
+        console.log(`已写入 ${file}: ${key} = ${value}`)
+      } catch (error) {
+        console.error(error instanceof Error ? error.message : error)
+        process.exit(1)
+      }
+    })
+
+  program
+    .command('serve')
+    .description('Run the MCP server, on stdio by default or over HTTP for several clients at once')
+    .option('--http', 'Serve Streamable HTTP on /mcp and SSE on /sse instead of stdio')
+    .option('--port <port>', 'Port to listen on with --http', String(config.http.port))
+    .option('--host <host>', 'Interface to listen on with --http', config.http.host)
+    .action(async (options: { http?: boolean; port: string; host: string }) => {
+      try {
+        if (options.http) {
+          await serveHttp({ port: Number(options.port), host: options.host, token: config.http.token })
+        } else {
+          await main()
+        }
+      } catch (error) {
+        logger.error('Error starting server:', error)
+        console.error('启动服务失败:', error)
+        process.exit(1)
+      }
+    })
 
   program
     .command('init')
     .description('Initialize and login to RedNote')
-    .action(async () => {
-      logger.info('Starting initialization process')
+    .option('-p, --profile <name>', 'Account to log in, use a new name to add another account', DEFAULT_PROFILE)
+    .action(async (options: { profile: string }) => {
+      logger.info(`Starting initialization process for account ${options.profile}`)
       try {
-        const authManager = new AuthManager()
-        await authManager.login()
+        const authManager = new AuthManager(authOptions(options.profile))
+        await authManager.login({
+          onQrCode: async (qrCode, mimeType) => {
+            try {
+              console.log('请使用小红书 App 扫描二维码登录：')
+              console.log(await renderQrCodeForTerminal(qrCode))
+            } catch (error) {
+              // Fall back to an image file when the QR code cannot be redrawn in the terminal
+              const extension = mimeType.replace(/^image\//, '').replace(/\+.*$/, '')
+              const qrCodePath = path.join(os.tmpdir(), `rednote-login-qrcode.${extension}`)
+              fs.writeFileSync(qrCodePath, qrCode)
+              console.log(`请使用小红书 App 扫描二维码登录，二维码图片已保存到: ${qrCodePath}`)
+            }
+          }
+        })
         await authManager.cleanup()
         logger.info('Initialization successful')
         console.log('Login successful! Cookie has been saved.')
@@ -181,6 +1018,288 @@ if (process.argv.includes('--stdio')) {
       }
     })
 
+  program
+    .command('batch')
+    .description('Fetch many notes at once and print them as JSON, one URL, share text or note id per argument or line')
+    .argument('[notes...]', 'Note URLs, share texts or note ids')
+    .option('-f, --file <path>', 'Read notes from a file, one per line')
+    .option('-c, --concurrency <n>', `Pages fetched in parallel, at most ${concurrency} (session.maxConcurrency)`, '2')
+    .option('-o, --out <path>', 'Write the results to a file instead of stdout')
+    .option('--force-refresh', 'Fetch from the site even when the local cache has the note')
+    .option('-a, --account <name>', 'Account to fetch with (default: REDNOTE_ACCOUNT or the default account)')
+    .action(
+      async (
+        notes: string[],
+        options: { file?: string; concurrency: string; out?: string; forceRefresh?: boolean; account?: string }
+      ) => {
+        try {
+          const inputs = [...notes]
+          if (options.file) {
+            inputs.push(...fs.readFileSync(options.file, 'utf-8').split(/\r?\n/))
+          }
+          const notesToFetch = inputs.map((input) => input.trim()).filter(Boolean)
+          if (notesToFetch.length === 0) {
+            console.error('没有要获取的笔记，请传入笔记链接或使用 --file')
+            process.exit(1)
+          }
+
+          const results = await fetchNotesBatch(
+            notesToFetch,
+            (input) =>
+              accounts.run(options.account, (tools) =>
+                tools.getNoteContent(input, { forceRefresh: options.forceRefresh })
+              ),
+            {
+              concurrency: Math.max(1, Math.min(Number(options.concurrency) || 2, concurrency)),
+              onResult: (result, done, total) =>
+                console.error(
+                  `[${done}/${total}] ${result.error === undefined ? result.note.title : `失败: ${result.error}`} (${result.input})`
+                )
+            }
+          )
+          await accounts.cleanup()
+
+          const output = JSON.stringify(results, null, 2)
+          if (options.out) {
+            fs.writeFileSync(options.out, output)
+            console.error(`结果已保存到: ${options.out}`)
+          } else {
+            console.log(output)
+          }
+          // 2 tells scripts that only some of the notes could be fetched
+          process.exit(results.some((result) => result.error !== undefined) ? 2 : 0)
+        } catch (error) {
+          logger.error('Error fetching notes batch:', error)
+          console.error('批量获取笔记失败:', error)
+          process.exit(1)
+        }
+      }
+    )
+
+  program
+    .command('status')
+    .description('Show whether the saved login still works, when it expires and which user it belongs to')
+    .option('-a, --account <name>', 'Account to check (default: REDNOTE_ACCOUNT or the default account)')
+    .option('--all', 'Check every account that has logged in')
+    .option('--no-verify', 'Only read the saved cookies, do not open the site')
+    .action(async (options: { account?: string; all?: boolean; verify: boolean }) => {
+      let ok = true
+      try {
+        const names = options.all ? accounts.list().map((info) => info.name) : [options.account || accounts.active]
+        for (const account of names) {
+          const status = await accounts.get(account).checkLogin({ verify: options.verify })
+          console.log(
+            formatFields([
+              ['账号', account],
+              ['Cookie', status.hasCookies ? '已保存' : '未保存'],
+              ['登录状态', status.loggedIn === undefined ? undefined : status.loggedIn ? '有效' : '已失效'],
+              ['用户', status.user?.nickname],
+              ['用户 ID', status.user?.userId],
+              ['小红书号', status.user?.redId],
+              ['过期时间', status.expiresAt],
+              ['上次确认有效', status.lastVerifiedAt],
+              ['提醒', status.warning]
+            ])
+          )
+          ok = ok && status.loggedIn !== false && !status.expired
+        }
+        await accounts.cleanup()
+      } catch (error) {
+        logger.error('Error checking login status:', error)
+        console.error('检查登录状态失败:', error)
+        process.exit(1)
+      }
+      // 1 tells scripts that at least one account has to log in again
+      process.exit(ok ? 0 : 1)
+    })
+
+  program
+    .command('logout')
+    .description('Delete the saved cookies and browser storage of an account')
+    .option('-a, --account <name>', 'Account to log out (default: REDNOTE_ACCOUNT or the default account)')
+    .action(async (options: { account?: string }) => {
+      try {
+        const name = await accounts.logout(options.account)
+        await accounts.cleanup()
+        console.log(`已退出账号 ${name}，保存的登录信息已删除`)
+        process.exit(0)
+      } catch (error) {
+        await failCommand(error)
+      }
+    })
+
+  program
+    .command('search')
+    .description('Search notes by keywords and print the results')
+    .argument('<keywords...>', 'Search keywords')
+    .option('-l, --limit <n>', 'Number of notes to return', '10')
+    .option('--sort <sort>', 'general, latest, most_liked, most_commented or most_collected', 'general')
+    .option('--type <type>', 'all, video or image', 'all')
+    .option('--publish-time <time>', 'all, day, week or half_year', 'all')
+    .option('--mode <mode>', 'api reads the search API (fast), click opens every result (slow)', 'api')
+    .option('--cursor <cursor>', 'Continue from the cursor an earlier search printed, with the same filters')
+    .option('--fetch-details', 'Open every note to fill in content and tags (slow)')
+    .option('-F, --format <format>', `Output format: ${EXPORT_FORMATS.join(', ')}`, 'json')
+    .option('-o, --out <path>', 'Write the results to a file instead of stdout')
+    .option('-a, --account <name>', 'Account to search with (default: REDNOTE_ACCOUNT or the default account)')
+    .action(
+      async (
+        keywords: string[],
+        options: {
+          limit: string
+          sort: string
+          type: string
+          publishTime: string
+          mode: string
+          cursor?: string
+          fetchDetails?: boolean
+          format: string
+          out?: string
+          account?: string
+        }
+      ) => {
+        try {
+          // Check every option before the browser starts
+          const format = parseExportFormat(options.format)
+          const limit = parsePositiveInteger(options.limit, '--limit')
+          const mode = parseSearchMode(options.mode)
+          const filters = parseSearchFilters({
+            sort: options.sort,
+            noteType: options.type,
+            publishTime: options.publishTime
+          })
+          const query = keywords.join(' ')
+          console.error(`正在搜索: ${query}`)
+          const result = await accounts.run(options.account, (tools) =>
+            tools.searchNotes(query, limit, {
+              mode,
+              fetchDetails: options.fetchDetails,
+              filters,
+              cursor: options.cursor
+            })
+          )
+          await accounts.cleanup()
+          console.error(`找到 ${result.notes.length} 条笔记`)
+          if (result.hasMore) {
+            console.error(`还有更多结果，加上 --cursor ${result.cursor} 继续获取`)
+          }
+          writeOutput(formatRows(result.notes, format, NOTE_COLUMNS), options.out)
+          process.exit(0)
+        } catch (error) {
+          logger.error('Error searching notes:', error)
+          await failCommand(error)
+        }
+      }
+    )
+
+  program
+    .command('note')
+    .description('Fetch a note and print its content')
+    .argument('<note>', 'Note URL, share text, xhslink short link or note id')
+    .option('-F, --format <format>', `Output format: ${EXPORT_FORMATS.join(', ')}`, 'json')
+    .option('-o, --out <path>', 'Write the note to a file instead of stdout')
+    .option('--force-refresh', 'Fetch from the site even when the local cache has the note')
+    .option('-a, --account <name>', 'Account to fetch with (default: REDNOTE_ACCOUNT or the default account)')
+    .action(
+      async (input: string, options: { format: string; out?: string; forceRefresh?: boolean; account?: string }) => {
+        try {
+          const format = parseExportFormat(options.format)
+          console.error(`正在获取笔记: ${input}`)
+          const note = await accounts.run(options.account, (tools) =>
+            tools.getNoteContent(input, { forceRefresh: options.forceRefresh })
+          )
+          await accounts.cleanup()
+          console.error(`已获取: ${note.title}`)
+          // A single note is an object in json, a one-row table everywhere else
+          const output =
+            format === 'json' ? `${JSON.stringify(note, null, 2)}\n` : formatRows([note], format, NOTE_DETAIL_COLUMNS)
+          writeOutput(output, options.out)
+          process.exit(0)
+        } catch (error) {
+          logger.error('Error getting note content:', error)
+          await failCommand(error)
+        }
+      }
+    )
+
+  program
+    .command('comments')
+    .description('Fetch the comments of a note and print them')
+    .argument('<note>', 'Note URL, share text, xhslink short link or note id')
+    .option('-l, --limit <n>', 'Number of top-level comments to return', '20')
+    .option('-r, --replies', 'Also fetch every reply, listed after the comment they belong to in csv, md and jsonl')
+    .option('-F, --format <format>', `Output format: ${EXPORT_FORMATS.join(', ')}`, 'json')
+    .option('-o, --out <path>', 'Write the comments to a file instead of stdout')
+    .option('--force-refresh', 'Fetch from the site even when the local cache has the comments')
+    .option('-a, --account <name>', 'Account to fetch with (default: REDNOTE_ACCOUNT or the default account)')
+    .action(
+      async (
+        input: string,
+        options: {
+          limit: string
+          replies?: boolean
+          format: string
+          out?: string
+          forceRefresh?: boolean
+          account?: string
+        }
+      ) => {
+        try {
+          const format = parseExportFormat(options.format)
+          console.error(`正在获取评论: ${input}`)
+          const comments = await accounts.run(options.account, (tools) =>
+            tools.getNoteComments(input, {
+              limit: Number(options.limit) || 20,
+              includeReplies: options.replies,
+              forceRefresh: options.forceRefresh
+            })
+          )
+          await accounts.cleanup()
+          console.error(`已获取 ${comments.length} 条评论`)
+          // json keeps the reply tree, the line and table formats get one row per comment or reply
+          const rows =
+            format === 'json' ? comments : comments.flatMap(({ replies, ...comment }) => [comment, ...(replies || [])])
+          writeOutput(formatRows(rows, format, COMMENT_COLUMNS), options.out)
+          process.exit(0)
+        } catch (error) {
+          logger.error('Error getting note comments:', error)
+          await failCommand(error)
+        }
+      }
+    )
+
+  const cache = program.command('cache').description('Manage the local store of fetched notes')
+
+  cache
+    .command('stats')
+    .description('Show what the note store holds')
+    .action(() => {
+      const stats = store.stats()
+      console.log(`存储位置: ${stats.path}`)
+      console.log(`笔记: ${stats.notes}`)
+      console.log(`评论列表: ${stats.comments}`)
+      console.log(`搜索结果: ${stats.searchHits}`)
+      console.log(`文件大小: ${(stats.bytes / 1024).toFixed(1)} KB`)
+      if (stats.oldest && stats.newest) {
+        console.log(`获取时间: ${stats.oldest} ~ ${stats.newest}`)
+      }
+      process.exit(0)
+    })
+
+  cache
+    .command('clear')
+    .description('Delete every stored note, comment list and search hit')
+    .action(() => {
+      try {
+        store.clear()
+        console.log(`已清空本地缓存: ${store.path}`)
+        process.exit(0)
+      } catch (error) {
+        console.error('清空缓存失败:', error)
+        process.exit(1)
+      }
+    })
+
   program
     .command('pack-logs')
     .description('Pack all log files into a zip file')
@@ -0,0 +1,413 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { z } from 'zod'
+
+/**
+ * Where the config file is read from, REDNOTE_CONFIG or --config points elsewhere
+ */
+export const DEFAULT_CONFIG_PATH = path.join(os.homedir(), '.mcp', 'rednote', 'config.json')
+
+// The file can hold the HTTP token and proxy password, only the owner may read it
+const FILE_MODE = 0o600
+
+/**
+ * Platform-specific directory for log files
+ */
+export function defaultLogsDir(): string {
+  const appName = 'rednote-mcp'
+  switch (process.platform) {
+    case 'win32':
+      // Windows: %APPDATA%\rednote-mcp\logs
+      return path.join(process.env.APPDATA || '', appName, 'logs')
+    case 'darwin':
+      // macOS: ~/Library/Application Support/rednote-mcp/logs
+      return path.join(os.homedir(), 'Library', 'Application Support', appName, 'logs')
+    case 'linux':
+      // Linux: ~/.local/share/rednote-mcp/logs
+      return path.join(os.homedir(), '.local', 'share', appName, 'logs')
+    default:
+      // Fallback to current directory if platform is not recognized
+      return path.join(process.cwd(), 'logs')
+  }
+}
+
+const seconds = z.number().nonnegative()
+
+// Durations are in seconds, like the environment variables that override them
+const ConfigSchema = z
+  .object({
+    paths: z
+      .object({
+        /** Holds the login state of the default account, profiles/ of the named ones and notes.jsonl */
+        dataDir: z.string().default(path.join(os.homedir(), '.mcp', 'rednote')),
+        /** Where download_note_media saves to */
+        mediaDir: z.string().default(path.join(os.homedir(), '.mcp', 'rednote', 'media')),
+        /** Selector overrides, defaults to selectors.json in dataDir */
+        selectors: z.string().optional()
+      })
+      .strict()
+      .default({}),
+    logging: z
+      .object({
+        level: z.enum(['error', 'warn', 'info', 'debug']).default('info'),
+        dir: z.string().default(defaultLogsDir()),
+        /** Size at which a log file is rotated, in bytes */
+        maxSize: z
+          .number()
+          .int()
+          .positive()
+          .default(10 * 1024 * 1024),
+        /** Rotated log files kept */
+        maxFiles: z.number().int().positive().default(5)
+      })
+      .strict()
+      .default({}),
+    browser: z
+      .object({
+        headless: z.boolean().default(true),
+        /** Proxy server, e.g. http://proxy.example.com:8080 or socks5://127.0.0.1:1080 */
+        proxy: z.string().optional(),
+        /** Comma-separated hosts that skip the proxy */
+        proxyBypass: z.string().optional(),
+        proxyUsername: z.string().optional(),
+        proxyPassword: z.string().optional(),
+        userAgent: z.string().optional(),
+        /** Window size as WIDTHxHEIGHT, e.g. 1280x800 */
+        viewport: z
+          .string()
+          .regex(/^\d+x\d+$/, 'Expected WIDTHxHEIGHT, e.g. 1280x800')
+          .optional(),
+        /** e.g. zh-CN */
+        locale: z.string().optional(),
+        /** e.g. Asia/Shanghai */
+        timezone: z.string().optional(),
+        /** Browser binary to run instead of Playwright's own Chromium */
+        executablePath: z.string().optional(),
+        /** Installed browser to run instead of Playwright's own Chromium, e.g. chrome or msedge */
+        channel: z.string().optional(),
+        /** Extra command line switches for the browser */
+        args: z.array(z.string()).default([]),
+        /** storageState keeps cookies and localStorage, cookies keeps only a bare cookies.json */
+        storage: z.enum(['storageState', 'cookies']).default('storageState')
+      })
+      .strict()
+      .default({}),
+    timeouts: z
+      .object({
+        /** Waiting for a page element or for one of the site's API responses */
+        page: seconds.default(30),
+        /** Waiting for the QR code to be scanned */
+        login: seconds.default(120),
+        /** Attempts to load the login page before giving up */
+        loginRetries: z.number().int().positive().default(3),
+        /** Time budget of a single tool call */
+        task: seconds.default(300),
+        /** Following an xhslink short link */
+        shortLink: seconds.default(10)
+      })
+      .strict()
+      .default({}),
+    delays: z
+      .object({
+        /** Multiplies the random pauses between clicks and scrolls, 0 turns them off */
+        scale: z.number().nonnegative().default(1)
+      })
+      .strict()
+      .default({}),
+    session: z
+      .object({
+        /** Close the browser after this long without a call */
+        idleTimeout: seconds.default(300),
+        /** Calls, and so pages, running at the same time */
+        maxConcurrency: z.number().int().positive().default(2),
+        /** Calls waiting for a free page before new ones are turned away */
+        maxQueue: z.number().int().nonnegative().default(10),
+        /** How long fetched notes and comments are served from the local store */
+        cacheTtl: seconds.default(3600)
+      })
+      .strict()
+      .default({}),
+    throttle: z
+      .object({
+        requestsPerMinute: z.number().int().positive().default(20),
+        /** Pause after a captcha or rate limit page */
+        cooldown: seconds.default(600)
+      })
+      .strict()
+      .default({}),
+    accounts: z
+      .object({
+        /** Account used when a call does not name one */
+        active: z.string().default('default'),
+        /** Warn this long before the login expires */
+        expiryWarning: seconds.default(3 * 24 * 60 * 60)
+      })
+      .strict()
+      .default({}),
+    encryption: z
+      .object({
+        /** File holding the key the saved login is encrypted with, REDNOTE_COOKIE_KEY takes precedence */
+        keyFile: z.string().optional()
+      })
+      .strict()
+      .default({}),
+    http: z
+      .object({
+        port: z.number().int().min(0).max(65535).default(3000),
+        host: z.string().default('127.0.0.1'),
+        /** Bearer token clients must send, no check when unset */
+        token: z.string().optional()
+      })
+      .strict()
+      .default({})
+  })
+  .strict()
+
+export type Config = z.infer<typeof ConfigSchema>
+
+/**
+ * Environment variables and the config keys they override
+ */
+export const ENV_VARS: Record<string, string> = {
+  REDNOTE_DATA_DIR: 'paths.dataDir',
+  REDNOTE_MEDIA_DIR: 'paths.mediaDir',
+  REDNOTE_SELECTORS: 'paths.selectors',
+  REDNOTE_LOG_LEVEL: 'logging.level',
+  REDNOTE_LOGS_DIR: 'logging.dir',
+  REDNOTE_HEADLESS: 'browser.headless',
+  REDNOTE_PROXY: 'browser.proxy',
+  REDNOTE_USER_AGENT: 'browser.userAgent',
+  REDNOTE_LOCALE: 'browser.locale',
+  REDNOTE_TIMEZONE: 'browser.timezone',
+  REDNOTE_EXECUTABLE_PATH: 'browser.executablePath',
+  REDNOTE_BROWSER_CHANNEL: 'browser.channel',
+  REDNOTE_BROWSER_ARGS: 'browser.args',
+  REDNOTE_PAGE_TIMEOUT: 'timeouts.page',
+  REDNOTE_LOGIN_TIMEOUT: 'timeouts.login',
+  REDNOTE_TASK_TIMEOUT: 'timeouts.task',
+  REDNOTE_DELAY_SCALE: 'delays.scale',
+  REDNOTE_IDLE_TIMEOUT: 'session.idleTimeout',
+  REDNOTE_MAX_CONCURRENCY: 'session.maxConcurrency',
+  REDNOTE_MAX_QUEUE: 'session.maxQueue',
+  REDNOTE_CACHE_TTL: 'session.cacheTtl',
+  REDNOTE_REQUESTS_PER_MINUTE: 'throttle.requestsPerMinute',
+  REDNOTE_COOLDOWN: 'throttle.cooldown',
+  REDNOTE_ACCOUNT: 'accounts.active',
+  REDNOTE_EXPIRY_WARNING: 'accounts.expiryWarning',
+  REDNOTE_COOKIE_KEY_FILE: 'encryption.keyFile',
+  REDNOTE_HTTP_PORT: 'http.port',
+  REDNOTE_HTTP_HOST: 'http.host',
+  REDNOTE_HTTP_TOKEN: 'http.token'
+}
+
+/**
+ * Command line flags that override a config key wherever they appear, including with --stdio
+ */
+export const FLAGS: Record<string, string> = {
+  '--media-dir': 'paths.mediaDir',
+  '--log-level': 'logging.level'
+}
+
+export interface ConfigSources {
+  /** Path of the config file, it does not have to exist */
+  file?: string
+  env?: NodeJS.ProcessEnv
+  argv?: string[]
+}
+
+/**
+ * Thrown when the config file or an override does not fit the schema
+ */
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ConfigError'
+  }
+}
+
+/**
+ * Effective config: defaults, overridden by the config file, then environment variables, then flags
+ */
+export function loadConfig(sources: ConfigSources = {}): Config {
+  const env = sources.env ?? process.env
+  const argv = sources.argv ?? process.argv.slice(2)
+  const file = sources.file ?? configPath(env, argv)
+
+  const merged = readConfigFile(file)
+  for (const [name, key] of Object.entries(ENV_VARS)) {
+    const value = env[name]
+    if (value !== undefined && value !== '') {
+      setKey(merged, key, parseValue(key, value))
+    }
+  }
+  for (const [flag, key] of Object.entries(FLAGS)) {
+    const value = flagValue(argv, flag)
+    if (value !== undefined) {
+      setKey(merged, key, parseValue(key, value))
+    }
+  }
+  return validate(merged, `${file}, the REDNOTE_* environment variables or the command line flags`)
+}
+
+/**
+ * Config file to use: --config, then REDNOTE_CONFIG, then the default
+ */
+export function configPath(env: NodeJS.ProcessEnv = process.env, argv: string[] = process.argv.slice(2)): string {
+  return flagValue(argv, '--config') || env.REDNOTE_CONFIG || DEFAULT_CONFIG_PATH
+}
+
+/**
+ * Change one key in the config file, keeping everything else in it. Returns the new file content.
+ */
+export function setConfigValue(file: string, key: string, value: string): Record<string, unknown> {
+  const content = readConfigFile(file)
+  setKey(content, key, parseValue(key, value))
+  validate(content, file)
+  fs.mkdirSync(path.dirname(file), { recursive: true })
+  fs.writeFileSync(file, `${JSON.stringify(content, null, 2)}\n`, { mode: FILE_MODE })
+  // The mode only applies to new files, tighten one written before too. Windows has no POSIX permissions.
+  if (process.platform !== 'win32' && (fs.statSync(file).mode & 0o777) !== FILE_MODE) {
+    fs.chmodSync(file, FILE_MODE)
+  }
+  return content
+}
+
+/**
+ * Every key that can be set, in dotted form
+ */
+export function configKeys(): string[] {
+  return Object.entries(ConfigSchema.shape).flatMap(([section, schema]) =>
+    Object.keys(sectionShape(schema)).map((key) => `${section}.${key}`)
+  )
+}
+
+/**
+ * Config with every value at its default
+ */
+export function defaultConfig(): Config {
+  return ConfigSchema.parse({})
+}
+
+let cachedConfig: Config | null = null
+
+/**
+ * The config of this process, loaded once
+ */
+export function getConfig(): Config {
+  if (!cachedConfig) {
+    cachedConfig = loadConfig()
+  }
+  return cachedConfig
+}
+
+/**
+ * The loaded config, or the defaults when it is invalid. For modules that start before the
+ * command line is handled, the CLI reports an invalid config itself.
+ */
+export function getConfigOrDefault(): Config {
+  try {
+    return getConfig()
+  } catch (error) {
+    return defaultConfig()
+  }
+}
+
+/**
+ * Value of a `--flag value` or `--flag=value` argument. Read straight from argv because the
+ * server runs with --stdio, where commander does not parse the arguments.
+ */
+export function flagValue(argv: string[], flag: string): string | undefined {
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === flag) return argv[i + 1]
+    if (argv[i].startsWith(`${flag}=`)) return argv[i].slice(flag.length + 1)
+  }
+  return undefined
+}
+
+function readConfigFile(file: string): Record<string, unknown> {
+  if (!fs.existsSync(file)) return {}
+  try {
+    const content: unknown = JSON.parse(fs.readFileSync(file, 'utf-8'))
+    if (!isRecord(content)) {
+      throw new Error('the top level must be an object')
+    }
+    return content
+  } catch (error) {
+    throw new ConfigError(`Cannot read config file ${file}: ${error instanceof Error ? error.message : error}`)
+  }
+}
+
+function validate(content: unknown, origin: string): Config {
+  const result = ConfigSchema.safeParse(content)
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => `  ${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    throw new ConfigError(`Invalid config in ${origin}:\n${issues.join('\n')}`)
+  }
+  return result.data
+}
+
+/**
+ * Turn a string from the environment or the command line into the type the key expects
+ */
+function parseValue(key: string, value: string): unknown {
+  const schema = leafSchema(key)
+  if (schema instanceof z.ZodNumber) {
+    const number = Number(value)
+    if (value.trim() === '' || Number.isNaN(number)) {
+      throw new ConfigError(`${key} must be a number, got "${value}"`)
+    }
+    return number
+  }
+  if (schema instanceof z.ZodBoolean) {
+    if (!['true', 'false', '1', '0'].includes(value)) {
+      throw new ConfigError(`${key} must be true or false, got "${value}"`)
+    }
+    return value === 'true' || value === '1'
+  }
+  if (schema instanceof z.ZodArray) {
+    // A JSON array when an item holds spaces, otherwise space-separated
+    if (value.trim().startsWith('[')) {
+      try {
+        return JSON.parse(value)
+      } catch (error) {
+        throw new ConfigError(`${key} must be a JSON array or space-separated values, got "${value}"`)
+      }
+    }
+    return value.split(/\s+/).filter(Boolean)
+  }
+  return value
+}
+
+function leafSchema(key: string): z.ZodTypeAny {
+  const [section, field, ...rest] = key.split('.')
+  const sectionSchema = (ConfigSchema.shape as Record<string, z.ZodTypeAny>)[section]
+  const fieldSchema = sectionSchema && rest.length === 0 ? sectionShape(sectionSchema)[field] : undefined
+  if (!fieldSchema) {
+    throw new ConfigError(`Unknown config key "${key}", known keys: ${configKeys().join(', ')}`)
+  }
+  return unwrap(fieldSchema)
+}
+
+function sectionShape(schema: z.ZodTypeAny): z.ZodRawShape {
+  const section = unwrap(schema)
+  return section instanceof z.ZodObject ? section.shape : {}
+}
+
+function unwrap(schema: z.ZodTypeAny): z.ZodTypeAny {
+  while (schema instanceof z.ZodDefault || schema instanceof z.ZodOptional) {
+    schema = schema instanceof z.ZodDefault ? schema._def.innerType : schema.unwrap()
+  }
+  return schema
+}
+
+function setKey(target: Record<string, unknown>, key: string, value: unknown): void {
+  const [section, field] = key.split('.')
+  const values = isRecord(target[section]) ? target[section] : {}
+  values[field] = value
+  target[section] = values
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
@@ -0,0 +1,211 @@
+import { selectorsPath } from './tools/selectors'
+
+/**
+ * Stable identifiers for what went wrong, returned to MCP clients with every failed tool call
+ */
+export type ErrorCode =
+  | 'NOT_LOGGED_IN'
+  | 'COOKIE_EXPIRED'
+  | 'NOTE_NOT_FOUND'
+  | 'NOTE_REQUIRES_LOGIN'
+  | 'CAPTCHA'
+  | 'VERIFICATION_REQUIRED'
+  | 'RATE_LIMITED'
+  | 'SELECTOR_MISSING'
+  | 'TIMEOUT'
+  | 'BROWSER_NOT_INSTALLED'
+  | 'COOKIE_KEY'
+  | 'BUSY'
+  | 'UNKNOWN'
+
+/**
+ * Base of every error this package throws on purpose, the code tells callers how to react
+ */
+export class RedNoteError extends Error {
+  readonly code: ErrorCode
+
+  constructor(code: ErrorCode, message: string) {
+    super(message)
+    this.name = 'RedNoteError'
+    this.code = code
+  }
+}
+
+/**
+ * Thrown when the task queue is full and cannot accept another job
+ */
+export class BusyError extends RedNoteError {
+  constructor(message: string) {
+    super('BUSY', message)
+    this.name = 'BusyError'
+  }
+}
+
+/**
+ * Thrown when a job does not finish within its time budget
+ */
+export class TimeoutError extends RedNoteError {
+  constructor(message: string) {
+    super('TIMEOUT', message)
+    this.name = 'TimeoutError'
+  }
+}
+
+/**
+ * Thrown when none of the configured selectors for a required element match the page
+ */
+export class SelectorMissingError extends RedNoteError {
+  readonly field: string
+  readonly selectors: string[]
+
+  constructor(field: string, selectors: string[]) {
+    super('SELECTOR_MISSING', `No element found for ${field}, tried: ${selectors.join(', ')}`)
+    this.name = 'SelectorMissingError'
+    this.field = field
+    this.selectors = selectors
+  }
+}
+
+/**
+ * Thrown when there are no saved cookies at all
+ */
+export class NotLoggedInError extends RedNoteError {
+  constructor(message: string = 'Not logged in') {
+    super('NOT_LOGGED_IN', message)
+    this.name = 'NotLoggedInError'
+  }
+}
+
+/**
+ * Thrown when cookies were saved but the site no longer accepts them
+ */
+export class CookieExpiredError extends RedNoteError {
+  constructor(message: string = 'Not logged in: the saved cookies have expired') {
+    super('COOKIE_EXPIRED', message)
+    this.name = 'CookieExpiredError'
+  }
+}
+
+/**
+ * Thrown when a note does not exist, was deleted or was hidden by its author or the site
+ */
+export class NoteNotFoundError extends RedNoteError {
+  readonly noteId: string
+
+  constructor(noteId: string, reason?: string) {
+    super('NOTE_NOT_FOUND', `Note ${noteId} is not available${reason ? `: ${reason}` : ''}`)
+    this.name = 'NoteNotFoundError'
+    this.noteId = noteId
+  }
+}
+
+/**
+ * Thrown when the site sends a note to the login page even though the session is logged in,
+ * usually because the link lacks the xsec_token it was shared with
+ */
+export class NoteRequiresLoginError extends RedNoteError {
+  readonly noteId: string
+
+  constructor(noteId: string) {
+    super('NOTE_REQUIRES_LOGIN', `Note ${noteId} can only be opened after logging in or with its original share link`)
+    this.name = 'NoteRequiresLoginError'
+    this.noteId = noteId
+  }
+}
+
+/**
+ * Thrown when Playwright has no browser to launch
+ */
+export class BrowserNotInstalledError extends RedNoteError {
+  constructor(message: string) {
+    super('BROWSER_NOT_INSTALLED', message)
+    this.name = 'BrowserNotInstalledError'
+  }
+}
+
+/**
+ * Thrown when the saved cookies are encrypted and no key, or a different key, is configured
+ */
+export class CookieKeyError extends RedNoteError {
+  constructor(message: string) {
+    super('COOKIE_KEY', message)
+    this.name = 'CookieKeyError'
+  }
+}
+
+export type RiskControlKind = 'captcha' | 'verification' | 'rate_limit'
+
+const RISK_CONTROL_CODES: Record<RiskControlKind, ErrorCode> = {
+  captcha: 'CAPTCHA',
+  verification: 'VERIFICATION_REQUIRED',
+  rate_limit: 'RATE_LIMITED'
+}
+
+/**
+ * Thrown when the site answers with a captcha, an identity check or a "访问频繁" page instead of content.
+ * Someone has to deal with it in a real browser, retrying right away only makes it worse.
+ */
+export class RiskControlError extends RedNoteError {
+  readonly kind: RiskControlKind
+  /** Milliseconds since the epoch when page loads resume, if they were paused */
+  readonly retryAt?: number
+
+  constructor(kind: RiskControlKind, message: string, retryAt?: number) {
+    super(RISK_CONTROL_CODES[kind], message)
+    this.name = 'RiskControlError'
+    this.kind = kind
+    this.retryAt = retryAt
+  }
+}
+
+export interface ErrorDescription {
+  code: ErrorCode
+  message: string
+  /** What the user or the model should do next */
+  suggestion: string
+}
+
+// Functions are for suggestions that name a path, which depends on the config
+const SUGGESTIONS: Record<ErrorCode, string | (() => string)> = {
+  NOT_LOGGED_IN: '尚未登录，请调用 login 工具扫码登录后重试',
+  COOKIE_EXPIRED: '登录已过期，请调用 login 工具重新扫码登录后重试',
+  NOTE_NOT_FOUND: '笔记不存在、已被删除或暂时无法浏览，请确认链接是否正确，不要重试',
+  NOTE_REQUIRES_LOGIN: '该笔记需要带 xsec_token 的原始分享链接才能打开，请使用搜索结果或分享文本中的完整链接重试',
+  CAPTCHA:
+    '小红书要求完成滑块验证，请让用户在浏览器中用该账号打开小红书完成验证，然后调用 login 工具或等待冷却结束后重试',
+  VERIFICATION_REQUIRED:
+    '小红书要求验证账号身份，请让用户在浏览器中用该账号打开小红书完成验证，然后调用 login 工具后重试',
+  RATE_LIMITED: '访问过于频繁，请等待冷却结束后再重试，期间不要继续调用',
+  SELECTOR_MISSING: () => `页面结构可能已改版，请在 ${selectorsPath()} 中更新对应的选择器，或升级 rednote-mcp`,
+  TIMEOUT: '页面加载超时，请稍后重试；多次超时请检查网络或降低并发',
+  BROWSER_NOT_INSTALLED: '未安装浏览器，请在服务所在机器上运行 npx playwright install chromium 后重试',
+  COOKIE_KEY:
+    '保存的登录信息已加密，但没有设置密钥或密钥不对，请检查 REDNOTE_COOKIE_KEY 或 encryption.keyFile；找不回密钥时调用 logout 后重新登录',
+  BUSY: '服务正忙，请等待当前任务完成后重试',
+  UNKNOWN: '请检查参数后重试，多次失败可以运行 rednote-mcp pack-logs 打包日志反馈问题'
+}
+
+/**
+ * Code, message and next step for any error, including ones thrown by Playwright
+ */
+export function describeError(error: unknown): ErrorDescription {
+  const message = error instanceof Error ? error.message : String(error)
+  let code: ErrorCode = 'UNKNOWN'
+  if (error instanceof RedNoteError) {
+    code = error.code
+  } else if (error instanceof Error && error.name === 'TimeoutError') {
+    // Playwright's own timeouts share the name but not the class
+    code = 'TIMEOUT'
+  } else if (isBrowserMissing(message)) {
+    code = 'BROWSER_NOT_INSTALLED'
+  }
+  const suggestion = SUGGESTIONS[code]
+  return { code, message, suggestion: typeof suggestion === 'function' ? suggestion() : suggestion }
+}
+
+/**
+ * Whether a Playwright launch error means the browser binary was never downloaded
+ */
+export function isBrowserMissing(message: string): boolean {
+  return /Executable doesn't exist|playwright install/i.test(message)
+}
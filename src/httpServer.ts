@@ -0,0 +1,197 @@
+import crypto from 'crypto'
+import http from 'http'
+import { AddressInfo } from 'net'
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js'
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js'
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js'
+import logger from './utils/logger'
+
+export interface HttpServerOptions {
+  port: number
+  /** Interface to listen on, defaults to 127.0.0.1 so nothing is exposed by accident */
+  host?: string
+  /** Clients must send `Authorization: Bearer <token>`, no check when unset */
+  token?: string
+  /** Builds a fresh MCP server for every client session, they all share the same tools underneath */
+  createServer: () => McpServer
+  /** Reported by /health to anyone */
+  version?: string
+  /** Extra fields for the /health response, only sent along with the token when one is set */
+  health?: () => Record<string, unknown>
+}
+
+export interface HttpServer {
+  /** Base URL the server is reachable at */
+  url: string
+  /** Number of connected client sessions */
+  readonly sessions: number
+  close(): Promise<void>
+}
+
+// Streamable HTTP clients talk to MCP_PATH, older SSE clients open SSE_PATH and post to MESSAGES_PATH
+export const MCP_PATH = '/mcp'
+export const SSE_PATH = '/sse'
+export const MESSAGES_PATH = '/messages'
+export const HEALTH_PATH = '/health'
+
+const MAX_BODY_SIZE = 4 * 1024 * 1024
+
+type Transport = StreamableHTTPServerTransport | SSEServerTransport
+
+/**
+ * Serve MCP over HTTP so many clients can share one logged-in browser session.
+ * Every client session gets its own transport and McpServer, keyed by session id.
+ */
+export async function startHttpServer(options: HttpServerOptions): Promise<HttpServer> {
+  const transports = new Map<string, Transport>()
+
+  const server = http.createServer(async (req, res) => {
+    const { pathname, searchParams } = new URL(req.url || '/', 'http://localhost')
+    try {
+      if (pathname === HEALTH_PATH && req.method === 'GET') {
+        // Load balancers probe without credentials, sessions and accounts are only shown to clients
+        const details = !options.token || hasToken(req, options.token)
+        sendJson(res, 200, {
+          status: 'ok',
+          version: options.version,
+          ...(details ? { sessions: transports.size, ...options.health?.() } : {})
+        })
+        return
+      }
+      if (options.token && !hasToken(req, options.token)) {
+        res.setHeader('WWW-Authenticate', 'Bearer')
+        sendJson(res, 401, { error: 'Missing or invalid bearer token' })
+        return
+      }
+
+      if (pathname === MCP_PATH) {
+        await handleStreamable(req, res)
+      } else if (pathname === SSE_PATH && req.method === 'GET') {
+        await openSse(res)
+      } else if (pathname === MESSAGES_PATH && req.method === 'POST') {
+        const transport = transports.get(searchParams.get('sessionId') || '')
+        if (!(transport instanceof SSEServerTransport)) {
+          sendJson(res, 404, { error: 'Unknown session' })
+          return
+        }
+        await transport.handlePostMessage(req, res, await readJson(req))
+      } else {
+        sendJson(res, 404, { error: 'Not found' })
+      }
+    } catch (error) {
+      logger.error(`Error handling ${req.method} ${pathname}:`, error)
+      if (!res.headersSent) {
+        sendJson(res, error instanceof BadRequestError ? 400 : 500, {
+          error: error instanceof Error ? error.message : String(error)
+        })
+      } else {
+        res.end()
+      }
+    }
+  })
+
+  async function handleStreamable(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const body = req.method === 'POST' ? await readJson(req) : undefined
+    const sessionId = req.headers['mcp-session-id']
+    const existing = typeof sessionId === 'string' ? transports.get(sessionId) : undefined
+
+    if (existing instanceof StreamableHTTPServerTransport) {
+      await existing.handleRequest(req, res, body)
+      return
+    }
+    if (sessionId || !isInitializeRequest(body)) {
+      // Sessions do not survive a restart, clients start over when they see 404
+      sendJson(res, sessionId ? 404 : 400, {
+        jsonrpc: '2.0',
+        error: { code: -32000, message: sessionId ? 'Unknown session' : 'Send an initialize request first' },
+        id: null
+      })
+      return
+    }
+
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => crypto.randomUUID(),
+      onsessioninitialized: (id) => {
+        transports.set(id, transport)
+        logger.info(`HTTP session ${id} started (${transports.size} open)`)
+      }
+    })
+    transport.onclose = () => {
+      if (transport.sessionId && transports.delete(transport.sessionId)) {
+        logger.info(`HTTP session ${transport.sessionId} closed (${transports.size} open)`)
+      }
+    }
+    await options.createServer().connect(transport)
+    await transport.handleRequest(req, res, body)
+  }
+
+  async function openSse(res: http.ServerResponse): Promise<void> {
+    const transport = new SSEServerTransport(MESSAGES_PATH, res)
+    transports.set(transport.sessionId, transport)
+    logger.info(`SSE session ${transport.sessionId} started (${transports.size} open)`)
+    res.on('close', () => {
+      transports.delete(transport.sessionId)
+      logger.info(`SSE session ${transport.sessionId} closed (${transports.size} open)`)
+    })
+    await options.createServer().connect(transport)
+  }
+
+  const host = options.host || '127.0.0.1'
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject)
+    server.listen(options.port, host, () => {
+      server.off('error', reject)
+      resolve()
+    })
+  })
+  const { port } = server.address() as AddressInfo
+  const url = `http://${host.includes(':') ? `[${host}]` : host}:${port}`
+  logger.info(`RedNote MCP Server listening on ${url}${MCP_PATH}`)
+
+  return {
+    url,
+    get sessions() {
+      return transports.size
+    },
+    close: async () => {
+      await Promise.all(Array.from(transports.values()).map((transport) => transport.close().catch(() => undefined)))
+      transports.clear()
+      await new Promise<void>((resolve) => {
+        server.close(() => resolve())
+        server.closeAllConnections()
+      })
+    }
+  }
+}
+
+class BadRequestError extends Error {}
+
+function hasToken(req: http.IncomingMessage, token: string): boolean {
+  const match = (req.headers.authorization || '').match(/^Bearer\s+(.+)$/i)
+  if (!match) return false
+  const given = Buffer.from(match[1].trim())
+  const expected = Buffer.from(token)
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected)
+}
+
+async function readJson(req: http.IncomingMessage): Promise<unknown> {
+  let body = ''
+  for await (const chunk of req) {
+    body += chunk
+    if (body.length > MAX_BODY_SIZE) {
+      throw new BadRequestError('Request body too large')
+    }
+  }
+  if (!body) return undefined
+  try {
+    return JSON.parse(body)
+  } catch (error) {
+    throw new BadRequestError('Request body is not valid JSON')
+  }
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' })
+  res.end(JSON.stringify(body))
+}
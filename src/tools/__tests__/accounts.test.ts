@@ -0,0 +1,141 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { profileCookiePath } from '../../auth/profiles'
+import { NotLoggedInError, RiskControlError } from '../../errors'
+import { AccountPool } from '../accounts'
+import { RedNoteTools } from '../rednoteTools'
+
+interface FakeTools {
+  account: string
+  pausedUntil: number
+  cleanup: jest.Mock
+  logout: jest.Mock
+}
+
+describe('AccountPool', () => {
+  let root: string
+  let created: Map<string, FakeTools>
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'rednote-accounts-'))
+    created = new Map()
+  })
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true })
+  })
+
+  function login(name: string) {
+    const cookiePath = profileCookiePath(name, root)
+    fs.mkdirSync(path.dirname(cookiePath), { recursive: true })
+    fs.writeFileSync(cookiePath, '[]')
+  }
+
+  function createPool(active?: string) {
+    return new AccountPool({
+      root,
+      active,
+      createTools: (account) => {
+        const tools: FakeTools = {
+          account,
+          pausedUntil: 0,
+          cleanup: jest.fn().mockResolvedValue(undefined),
+          logout: jest.fn(async () => fs.rmSync(profileCookiePath(account, root)))
+        }
+        created.set(account, tools)
+        return tools as unknown as RedNoteTools
+      }
+    })
+  }
+
+  const blocked = () => new RiskControlError('rate_limit', '访问频繁')
+
+  test('当前账号被风控时换用下一个已登录的账号', async () => {
+    login('default')
+    login('alt')
+    const pool = createPool()
+
+    const used: string[] = []
+    const result = await pool.run(undefined, async (tools, account) => {
+      used.push(account)
+      if (account === 'default') throw blocked()
+      return (tools as unknown as FakeTools).account
+    })
+
+    expect(result).toBe('alt')
+    expect(used).toEqual(['default', 'alt'])
+  })
+
+  test('跳过已暂停的账号，所有账号都被风控时抛出最后的错误', async () => {
+    login('default')
+    login('alt')
+    const pool = createPool()
+    pool.get('default')
+    created.get('default')!.pausedUntil = Date.now() + 60000
+
+    const used: string[] = []
+    await expect(
+      pool.run(undefined, async (_tools, account) => {
+        used.push(account)
+        throw blocked()
+      })
+    ).rejects.toBeInstanceOf(RiskControlError)
+    expect(used).toEqual(['alt'])
+    expect(pool.list().find((info) => info.name === 'default')?.pausedUntil).toBeDefined()
+  })
+
+  test('指定账号时不会换用其他账号，其他错误也不会换账号', async () => {
+    login('default')
+    login('alt')
+    const pool = createPool()
+
+    const used: string[] = []
+    await expect(
+      pool.run('alt', async (_tools, account) => {
+        used.push(account)
+        throw blocked()
+      })
+    ).rejects.toBeInstanceOf(RiskControlError)
+    await expect(
+      pool.run(undefined, async (_tools, account) => {
+        used.push(account)
+        throw new Error('boom')
+      })
+    ).rejects.toThrow('boom')
+    expect(used).toEqual(['alt', 'default'])
+  })
+
+  test('只能切换到已登录的账号', () => {
+    login('alt')
+    const pool = createPool()
+
+    expect(() => pool.switch('work')).toThrow(NotLoggedInError)
+    expect(() => pool.get('work')).toThrow(NotLoggedInError)
+    expect(() => pool.switch('../evil')).toThrow('Invalid account name')
+
+    pool.switch('alt')
+    expect(pool.active).toBe('alt')
+    expect(pool.list()).toEqual([{ name: 'alt', active: true, pausedUntil: undefined }])
+  })
+
+  test('未登录的当前账号仍然可以使用，调用时报告未登录', async () => {
+    const pool = createPool('work')
+    expect(pool.get()).toBe(created.get('work'))
+    expect(pool.list()).toEqual([{ name: 'work', active: true, pausedUntil: undefined }])
+
+    await pool.cleanup()
+    expect(created.get('work')!.cleanup).toHaveBeenCalled()
+  })
+
+  test('退出登录后账号不再列出，也不能再切换过去', async () => {
+    login('alt')
+    const pool = createPool()
+
+    expect(await pool.logout('alt')).toBe('alt')
+    expect(created.get('alt')!.logout).toHaveBeenCalled()
+    expect(pool.list()).toEqual([{ name: 'default', active: true, pausedUntil: undefined }])
+    expect(() => pool.switch('alt')).toThrow(NotLoggedInError)
+    await expect(pool.logout('alt')).rejects.toThrow(NotLoggedInError)
+  })
+})
@@ -0,0 +1,67 @@
+import fs from 'fs'
+import path from 'path'
+import { CommentResponse, CommentThread, mapComment } from '../comments'
+
+const NOTE_ID = '64b8c1f2000000001e03a1b1'
+const ROOT_ID = '6710a2f0000000001c01c101'
+
+function fixtureResponse(name: string): CommentResponse {
+  return JSON.parse(fs.readFileSync(path.join(__dirname, 'fixtures', 'api', `${name}.json`), 'utf-8'))
+}
+
+describe('comments', () => {
+  test('应该把一级评论映射为 Comment', () => {
+    const item = fixtureResponse(`comments-${NOTE_ID}`).data!.comments![0]
+
+    expect(mapComment(item)).toEqual({
+      id: ROOT_ID,
+      author: '路过的猫',
+      authorId: '61a2b3c4000000000100a001',
+      content: '请问是哪个公园呀',
+      likes: 12,
+      time: '2024-10-13T04:00:00.000Z',
+      ipLocation: '广东',
+      replyCount: 3
+    })
+  })
+
+  test('回复应该记录所属评论，回复他人回复时还应该记录被回复的人', () => {
+    const [toReply, toRoot] = fixtureResponse(`comments-sub-${ROOT_ID}`).data!.comments!
+
+    expect(mapComment(toReply, ROOT_ID)).toMatchObject({
+      parentId: ROOT_ID,
+      replyTo: { id: '6710a3b0000000001c01c111', author: '野餐小能手', authorId: '5f0e1a2b000000000101c3d4' }
+    })
+    expect(mapComment(toRoot, ROOT_ID).parentId).toBe(ROOT_ID)
+    expect(mapComment(toRoot, ROOT_ID).replyTo).toBeUndefined()
+  })
+
+  test('CommentThread 应该按页合并评论并去重', () => {
+    const thread = new CommentThread(false)
+
+    expect(thread.addPage(fixtureResponse(`comments-${NOTE_ID}`))).toBe(2)
+    expect(thread.addPage(fixtureResponse(`comments-${NOTE_ID}`))).toBe(0)
+    expect(thread.addPage(fixtureResponse(`comments-${NOTE_ID}-c-page-2`))).toBe(1)
+    expect(thread.comments.map((comment) => comment.likes)).toEqual([12, 5, 12000])
+    expect(thread.comments[0].replies).toBeUndefined()
+    expect(thread.hasMoreReplies(ROOT_ID)).toBe(false)
+  })
+
+  test('CommentThread 应该把展开的回复挂到所属评论下', () => {
+    const thread = new CommentThread(true)
+    thread.addPage(fixtureResponse(`comments-${NOTE_ID}`))
+
+    expect(thread.comments[0].replies).toHaveLength(1)
+    expect(thread.hasMoreReplies(ROOT_ID)).toBe(true)
+
+    thread.addReplyPage(ROOT_ID, fixtureResponse(`comments-sub-${ROOT_ID}`))
+
+    expect(thread.comments[0].replies!.map((reply) => reply.content)).toEqual([
+      '世纪公园～',
+      '谢谢！周六去',
+      '同问停车方便吗'
+    ])
+    expect(thread.comments[1].replies).toEqual([])
+    expect(thread.hasMoreReplies(ROOT_ID)).toBe(false)
+  })
+})
@@ -0,0 +1,132 @@
+import fs from 'fs'
+import http from 'http'
+import os from 'os'
+import path from 'path'
+import { AddressInfo } from 'net'
+import { chromium } from 'playwright'
+
+const PAGES_DIR = path.join(__dirname, 'pages')
+const API_DIR = path.join(__dirname, 'api')
+
+/** Cookie the stand-in site treats as a valid session */
+export const SESSION_COOKIE = { name: 'web_session', value: 'fixture-session' }
+
+export interface FixtureServer {
+  baseUrl: string
+  close(): Promise<void>
+}
+
+/**
+ * Browser tests need a local Chromium, skip them where `npx playwright install` has not been run.
+ * CI sets REDNOTE_BROWSER_TESTS=1 so a missing browser fails the run instead of hiding the suite.
+ */
+export const describeWithBrowser =
+  process.env.REDNOTE_BROWSER_TESTS === '1' || fs.existsSync(chromium.executablePath()) ? describe : describe.skip
+
+interface FixtureResponse {
+  type: string
+  body: string
+}
+
+function readFixture(file: string, type: string): FixtureResponse | null {
+  return fs.existsSync(file) ? { type, body: fs.readFileSync(file, 'utf-8') } : null
+}
+
+function readPage(name: string): FixtureResponse | null {
+  return readFixture(path.join(PAGES_DIR, `${name}.html`), 'text/html; charset=utf-8')
+}
+
+function readApi(name: string): FixtureResponse | null {
+  return readFixture(path.join(API_DIR, `${name}.json`), 'application/json; charset=utf-8')
+}
+
+function isLoggedIn(req: http.IncomingMessage): boolean {
+  const cookies = req.headers.cookie || ''
+  return cookies.split(';').some((cookie) => cookie.trim() === `${SESSION_COOKIE.name}=${SESSION_COOKIE.value}`)
+}
+
+function route(req: http.IncomingMessage, body: string): FixtureResponse | null {
+  const { pathname, searchParams } = new URL(req.url || '/', 'http://localhost')
+
+  if (pathname === '/api/sns/web/v1/search/notes') {
+    const { page = 1, sort = 'general' } = body ? JSON.parse(body) : {}
+    // Only the latest sort order has its own snapshot, it fits on one page
+    return readApi(sort === 'time_descending' ? 'search-notes-latest' : `search-notes-page${page}`)
+  }
+  if (pathname === '/api/sns/web/v2/comment/page') {
+    const cursor = searchParams.get('cursor')
+    return readApi(`comments-${searchParams.get('note_id')}${cursor ? `-${cursor}` : ''}`)
+  }
+  if (pathname === '/api/sns/web/v2/comment/sub/page') {
+    return readApi(`comments-sub-${searchParams.get('root_comment_id')}`)
+  }
+  if (pathname === '/api/sns/web/v1/user_posted') {
+    return readApi(`user-posted-${searchParams.get('user_id')}`)
+  }
+  if (pathname === '/' || pathname === '/explore') {
+    return readPage(isLoggedIn(req) ? 'home-logged-in' : 'home-logged-out')
+  }
+  if (pathname === '/search_result') {
+    return readPage('search')
+  }
+  const profile = pathname.match(/^\/user\/profile\/([0-9a-f]+)$/)
+  if (profile) {
+    return readPage(`profile-${profile[1]}`)
+  }
+  const note = pathname.match(/^\/explore\/([0-9a-f]+)$/)
+  if (note) {
+    return readPage(`note-${note[1]}`)
+  }
+  return null
+}
+
+/**
+ * Serve the saved HTML and API snapshots on a random local port as a stand-in for xiaohongshu.com
+ */
+export async function startFixtureServer(): Promise<FixtureServer> {
+  const server = http.createServer(async (req, res) => {
+    let body = ''
+    for await (const chunk of req) {
+      body += chunk
+    }
+    const response = route(req, body)
+    if (!response) {
+      res.writeHead(404, { 'Content-Type': 'text/html; charset=utf-8' })
+      res.end('<html><body>404</body></html>')
+      return
+    }
+    res.writeHead(200, { 'Content-Type': response.type })
+    res.end(response.body)
+  })
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    close: () => new Promise((resolve) => server.close(() => resolve()))
+  }
+}
+
+/**
+ * Write a cookie file for the stand-in site, with or without a valid session
+ */
+export function writeCookieFile(loggedIn: boolean): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rednote-test-'))
+  const cookiePath = path.join(dir, 'cookies.json')
+  const cookies = loggedIn
+    ? [
+        {
+          ...SESSION_COOKIE,
+          domain: '127.0.0.1',
+          path: '/',
+          expires: -1,
+          httpOnly: true,
+          secure: false,
+          sameSite: 'Lax'
+        }
+      ]
+    : []
+  fs.writeFileSync(cookiePath, JSON.stringify(cookies, null, 2))
+  return cookiePath
+}
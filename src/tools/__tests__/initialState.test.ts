@@ -0,0 +1,96 @@
+import fs from 'fs'
+import path from 'path'
+import { findStateNote, mapStateNote, parseInitialStateScript, pick } from '../initialState'
+
+const NOTE_ID = '64b8c1f2000000001e03a1b1'
+
+function fixtureScript(): string {
+  const html = fs.readFileSync(path.join(__dirname, 'fixtures', 'pages', `note-${NOTE_ID}.html`), 'utf-8')
+  return html.match(/<script>(window\.__INITIAL_STATE__=.*?)<\/script>/)![1]
+}
+
+describe('initialState', () => {
+  test('应该解析包含 undefined 的初始状态脚本', () => {
+    const state = parseInitialStateScript(fixtureScript())
+
+    expect(pick(state, 'user', 'userInfo')).toBeNull()
+    expect(pick(state, 'note', 'noteDetailMap', NOTE_ID, 'note', 'video')).toBeNull()
+  })
+
+  test('不是初始状态的脚本应该返回 null', () => {
+    expect(parseInitialStateScript('window.__SSR__=true')).toBeNull()
+    expect(parseInitialStateScript('window.__INITIAL_STATE__={broken')).toBeNull()
+  })
+
+  test('应该按笔记 id 查找笔记，找不到时返回 null', () => {
+    const state = parseInitialStateScript(fixtureScript())
+
+    expect(findStateNote(state, NOTE_ID)?.noteId).toBe(NOTE_ID)
+    expect(findStateNote(state)?.noteId).toBe(NOTE_ID)
+    expect(findStateNote(state, '000000000000000000000000')).toBeNull()
+    expect(findStateNote({})).toBeNull()
+  })
+
+  test.each([
+    null,
+    'text',
+    { note: null },
+    { note: { noteDetailMap: [1] } },
+    { note: { noteDetailMap: { a: { note: 1 } } } }
+  ])('结构不对的初始状态 %p 不会抛出异常', (state) => {
+    expect(findStateNote(state)).toBeNull()
+    expect(findStateNote(state, 'a')).toBeNull()
+  })
+
+  test('应该把图文笔记映射为 NoteDetail', () => {
+    const note = mapStateNote(findStateNote(parseInitialStateScript(fixtureScript()), NOTE_ID)!)
+
+    expect(note).toEqual({
+      noteId: NOTE_ID,
+      type: 'image',
+      title: '周末去哪儿｜城市公园野餐攻略',
+      content: '带上野餐垫和水果，找一片树荫就是一个下午。 #野餐 #周末',
+      tags: ['野餐', '周末'],
+      imgs: [
+        'https://sns-webpic-qc.xhscdn.com/202410/picnic-1.jpg',
+        'https://sns-webpic-qc.xhscdn.com/202410/picnic-2.jpg',
+        'https://sns-webpic-qc.xhscdn.com/202410/picnic-3.jpg'
+      ],
+      videos: [],
+      url: '',
+      author: '野餐小能手',
+      authorId: '5f0e1a2b000000000101c3d4',
+      authorAvatar: 'https://sns-avatar-qc.xhscdn.com/avatar/picnic.jpg',
+      likes: 12568,
+      collects: 3021,
+      comments: 2,
+      shares: 57,
+      publishTime: '2024-10-12T04:00:00.000Z',
+      lastUpdateTime: '2024-10-12T05:00:00.000Z',
+      ipLocation: '上海'
+    })
+  })
+
+  test('应该读取视频笔记的播放地址和带单位的计数', () => {
+    const note = mapStateNote({
+      noteId: '64b8c1f2000000001e03a1c3',
+      type: 'video',
+      title: '野餐 vlog',
+      video: {
+        media: {
+          stream: {
+            h264: [{ masterUrl: 'https://sns-video-qc.xhscdn.com/stream/picnic.mp4' }],
+            h265: []
+          }
+        }
+      },
+      interactInfo: { likedCount: '1.2万', collectedCount: '10w+', commentCount: '' }
+    })
+
+    expect(note.type).toBe('video')
+    expect(note.videos).toEqual(['https://sns-video-qc.xhscdn.com/stream/picnic.mp4'])
+    expect(note.likes).toBe(12000)
+    expect(note.collects).toBe(100000)
+    expect(note.comments).toBeUndefined()
+  })
+})
@@ -0,0 +1,72 @@
+import crypto from 'crypto'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { downloadNoteMedia, MediaFetcher, mediaExtension } from '../media'
+import { NoteDetail } from '../noteDetail'
+
+const NOTE: NoteDetail = {
+  noteId: '64b8c1f2000000001e03a1b1',
+  title: '周末去哪儿｜城市公园野餐攻略',
+  content: '',
+  tags: [],
+  imgs: [
+    'https://sns-webpic-qc.xhscdn.com/202410/picnic-1.jpg',
+    'https://sns-webpic-qc.xhscdn.com/202410/picnic-2.jpg',
+    'https://sns-webpic-qc.xhscdn.com/202410/picnic-1-copy'
+  ],
+  videos: ['blob:https://www.xiaohongshu.com/0f1e2d3c', 'https://sns-video-qc.xhscdn.com/expired.mp4'],
+  url: 'https://www.xiaohongshu.com/explore/64b8c1f2000000001e03a1b1',
+  author: '野餐小能手'
+}
+
+const fakeFetcher: MediaFetcher = async (url) => {
+  if (url.includes('expired')) throw new Error('HTTP 403')
+  const body = Buffer.from(url.includes('picnic-2') ? 'second image' : 'first image')
+  return { body, contentType: 'image/jpeg' }
+}
+
+describe('media', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rednote-media-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  test.each([
+    ['image/jpeg', 'https://a.com/x', '.jpg'],
+    ['image/webp; charset=binary', 'https://a.com/x', '.webp'],
+    ['video/mp4', 'https://a.com/x', '.mp4'],
+    ['application/octet-stream', 'https://a.com/video/clip.MOV', '.mov'],
+    ['', 'https://a.com/x', '.bin']
+  ])('mediaExtension(%p, %p) 应该返回 %p', (contentType, url, expected) => {
+    expect(mediaExtension(contentType, url)).toBe(expected)
+  })
+
+  test('应该以内容哈希命名文件并写入 manifest', async () => {
+    const { manifest, manifestPath } = await downloadNoteMedia(NOTE, dir, fakeFetcher)
+    const sha256 = crypto.createHash('sha256').update('first image').digest('hex')
+
+    expect(manifestPath).toBe(path.join(dir, NOTE.noteId!, 'manifest.json'))
+    expect(JSON.parse(fs.readFileSync(manifestPath, 'utf-8'))).toEqual(manifest)
+    expect(manifest.files).toHaveLength(3)
+    expect(manifest.files[0]).toMatchObject({ type: 'image', index: 0, file: `${sha256}.jpg`, sha256, bytes: 11 })
+    // The same content is stored once
+    expect(manifest.files[2].file).toBe(manifest.files[0].file)
+    expect(fs.readdirSync(path.join(dir, NOTE.noteId!))).toHaveLength(3)
+    expect(fs.readFileSync(path.join(dir, NOTE.noteId!, `${sha256}.jpg`), 'utf-8')).toBe('first image')
+  })
+
+  test('无法下载的媒体应该记录在 failed 中', async () => {
+    const { manifest } = await downloadNoteMedia(NOTE, dir, fakeFetcher)
+
+    expect(manifest.failed).toEqual([
+      { type: 'video', url: NOTE.videos![0], error: 'Only http(s) URLs can be downloaded' },
+      { type: 'video', url: NOTE.videos![1], error: 'HTTP 403' }
+    ])
+  })
+})
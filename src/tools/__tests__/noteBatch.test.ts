@@ -0,0 +1,47 @@
+import { NotLoggedInError } from '../../errors'
+import { fetchNotesBatch } from '../noteBatch'
+import { NoteDetail } from '../noteDetail'
+
+function note(title: string): NoteDetail {
+  return { title } as NoteDetail
+}
+
+describe('fetchNotesBatch', () => {
+  test('按输入顺序返回结果，单篇失败只记录在该条结果中', async () => {
+    const delays: Record<string, number> = { a: 30, b: 0, c: 10 }
+    const finished: string[] = []
+    const results = await fetchNotesBatch(
+      ['a', 'b', 'bad', 'c'],
+      async (input) => {
+        await new Promise((resolve) => setTimeout(resolve, delays[input] ?? 0))
+        if (input === 'bad') throw new NotLoggedInError()
+        return note(input)
+      },
+      { concurrency: 2, onResult: (result) => finished.push(result.input) }
+    )
+
+    expect(results).toEqual([
+      { input: 'a', note: note('a') },
+      { input: 'b', note: note('b') },
+      { input: 'bad', error: 'Not logged in', code: 'NOT_LOGGED_IN' },
+      { input: 'c', note: note('c') }
+    ])
+    expect(finished).not.toEqual(['a', 'b', 'bad', 'c'])
+  })
+
+  test('同时进行的获取不超过 concurrency', async () => {
+    let running = 0
+    let peak = 0
+    await fetchNotesBatch(
+      Array.from({ length: 7 }, (_, i) => String(i)),
+      async (input) => {
+        peak = Math.max(peak, ++running)
+        await new Promise((resolve) => setTimeout(resolve, 5))
+        running--
+        return note(input)
+      },
+      { concurrency: 3 }
+    )
+    expect(peak).toBe(3)
+  })
+})
@@ -0,0 +1,31 @@
+import { classifyNotePage } from '../noteDetail'
+
+const NOTE_ID = '64b8c1f2000000001e03a1b1'
+const NOTE_URL = `https://www.xiaohongshu.com/explore/${NOTE_ID}`
+
+describe('classifyNotePage', () => {
+  test.each([
+    [{ url: NOTE_URL, status: 200, text: '周末去哪儿｜城市公园野餐攻略' }, null],
+    [{ url: NOTE_URL, status: 404, text: '404' }, 'NOTE_NOT_FOUND'],
+    [
+      {
+        url: 'https://www.xiaohongshu.com/404?source=note&error_code=-510001&error_msg=%E7%AC%94%E8%AE%B0%E4%B8%8D%E5%AD%98%E5%9C%A8',
+        text: ''
+      },
+      'NOTE_NOT_FOUND'
+    ],
+    [{ url: NOTE_URL, text: '当前笔记暂时无法浏览\n返回首页' }, 'NOTE_NOT_FOUND'],
+    [
+      { url: `https://www.xiaohongshu.com/login?redirectPath=${encodeURIComponent(NOTE_URL)}`, text: '' },
+      'NOTE_REQUIRES_LOGIN'
+    ],
+    [{ url: NOTE_URL, text: `笔记不存在的时候怎么办${'分享一些经验。'.repeat(200)}` }, null]
+  ])('%p 应该识别为 %p', (snapshot, code) => {
+    expect(classifyNotePage(snapshot, NOTE_ID)?.code ?? null).toBe(code)
+  })
+
+  test('应该带上站点给出的原因', () => {
+    const error = classifyNotePage({ url: 'https://www.xiaohongshu.com/404?error_msg=笔记不存在', text: '' }, NOTE_ID)
+    expect(error?.message).toBe(`Note ${NOTE_ID} is not available: 笔记不存在`)
+  })
+})
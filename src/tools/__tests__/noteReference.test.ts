@@ -0,0 +1,128 @@
+import http from 'http'
+import { AddressInfo } from 'net'
+import { findLink, followRedirects, parseNoteUrl, resolveNoteReference } from '../noteReference'
+
+const BASE_URL = 'https://www.xiaohongshu.com'
+const NOTE_ID = '64b8c1f2000000001e03a1b1'
+const CANONICAL = `${BASE_URL}/explore/${NOTE_ID}`
+const WITH_TOKEN = `${CANONICAL}?xsec_token=AB123%3D&xsec_source=app_share`
+
+const SHARE_TEXT = `64 野餐小能手发布了一篇小红书笔记，快来看吧！ 😆 Ab12Cd34Ef 😆 http://xhslink.com/a/Xy9Zk2Lm，复制本条信息，打开【小红书】App查看精彩内容！`
+
+describe('noteReference', () => {
+  test.each([
+    [NOTE_ID, CANONICAL],
+    [`  ${NOTE_ID}\n`, CANONICAL],
+    [CANONICAL, CANONICAL],
+    [`https://xiaohongshu.com/explore/${NOTE_ID}`, CANONICAL],
+    [`${BASE_URL}/discovery/item/${NOTE_ID}`, CANONICAL],
+    [`${BASE_URL}/explore/${NOTE_ID}?xsec_token=AB123%3D&xsec_source=app_share&app_platform=ios`, WITH_TOKEN],
+    [
+      `${BASE_URL}/discovery/item/${NOTE_ID}?app_platform=android&xsec_source=app_share&xsec_token=AB123%3D`,
+      WITH_TOKEN
+    ],
+    [`${BASE_URL}/login?redirectPath=${encodeURIComponent(WITH_TOKEN)}`, WITH_TOKEN],
+    ['http://xhslink.com/a/Xy9Zk2Lm', null],
+    [`${BASE_URL}/user/profile/5f0e1a2b000000000101c3d4`, null],
+    ['野餐', null]
+  ])('parseNoteUrl(%p) 应该返回 %p', (input, expected) => {
+    expect(parseNoteUrl(input, BASE_URL)?.url ?? null).toBe(expected)
+  })
+
+  test('应该保留 xsec 参数', () => {
+    expect(parseNoteUrl(WITH_TOKEN, BASE_URL)).toEqual({
+      noteId: NOTE_ID,
+      url: WITH_TOKEN,
+      xsecToken: 'AB123=',
+      xsecSource: 'app_share'
+    })
+  })
+
+  test('规范链接应该使用传入的站点地址', () => {
+    expect(parseNoteUrl(WITH_TOKEN, 'http://127.0.0.1:3000')?.url).toBe(
+      `http://127.0.0.1:3000/explore/${NOTE_ID}?xsec_token=AB123%3D&xsec_source=app_share`
+    )
+  })
+
+  test.each([
+    [SHARE_TEXT, 'http://xhslink.com/a/Xy9Zk2Lm'],
+    [`看看这个 ${WITH_TOKEN} 很好看`, WITH_TOKEN],
+    [`链接：${CANONICAL}。`, CANONICAL],
+    ['没有链接', null]
+  ])('findLink(%p) 应该返回 %p', (input, expected) => {
+    expect(findLink(input)).toBe(expected)
+  })
+
+  test.each([
+    ['分享文本', SHARE_TEXT],
+    ['https 链接', 'https://xhslink.com/a/Xy9Zk2Lm'],
+    ['带前后空白的 www 链接', '  http://www.xhslink.com/a/Xy9Zk2Lm  ']
+  ])('应该从%s解析短链接', async (_, input) => {
+    const resolver = jest
+      .fn()
+      .mockResolvedValue(
+        `${BASE_URL}/discovery/item/${NOTE_ID}?app_platform=ios&xsec_token=AB123%3D&xsec_source=app_share`
+      )
+    await expect(resolveNoteReference(input, BASE_URL, resolver)).resolves.toMatchObject({
+      noteId: NOTE_ID,
+      url: WITH_TOKEN
+    })
+    expect(resolver).toHaveBeenCalledWith(expect.stringMatching(/xhslink\.com\/a\/Xy9Zk2Lm$/))
+  })
+
+  test('笔记链接和 ID 不应该发起网络请求', async () => {
+    const resolver = jest.fn()
+    await expect(resolveNoteReference(`快看 ${WITH_TOKEN}`, BASE_URL, resolver)).resolves.toMatchObject({
+      url: WITH_TOKEN
+    })
+    await expect(resolveNoteReference(NOTE_ID, BASE_URL, resolver)).resolves.toMatchObject({ url: CANONICAL })
+    expect(resolver).not.toHaveBeenCalled()
+  })
+
+  test('短链接没有指向笔记时应该报错', async () => {
+    const resolver = jest.fn().mockResolvedValue(`${BASE_URL}/404?source=xhslink`)
+    await expect(resolveNoteReference(SHARE_TEXT, BASE_URL, resolver)).rejects.toThrow(
+      'Short link http://xhslink.com/a/Xy9Zk2Lm does not lead to a note'
+    )
+  })
+
+  test.each(['野餐攻略', `${BASE_URL}/user/profile/5f0e1a2b000000000101c3d4`])(
+    '无法识别的输入 %p 应该报错',
+    async (input) => {
+      await expect(resolveNoteReference(input, BASE_URL, jest.fn())).rejects.toThrow('No note link or note id found')
+    }
+  )
+
+  describe('followRedirects', () => {
+    let server: http.Server
+    let origin: string
+
+    beforeAll(async () => {
+      server = http.createServer((req, res) => {
+        if (req.url === '/a/short') {
+          res.writeHead(302, { Location: '/discovery/item/64b8c1f2000000001e03a1b1?xsec_token=AB123' }).end()
+        } else if (req.url === '/loop') {
+          res.writeHead(301, { Location: '/loop' }).end()
+        } else {
+          res.writeHead(200, { 'Content-Type': 'text/html' }).end('<html></html>')
+        }
+      })
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+      origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+    })
+
+    afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve))
+    })
+
+    test('应该返回最终地址', async () => {
+      await expect(followRedirects(`${origin}/a/short`)).resolves.toBe(
+        `${origin}/discovery/item/64b8c1f2000000001e03a1b1?xsec_token=AB123`
+      )
+    })
+
+    test('重定向过多时应该报错', async () => {
+      await expect(followRedirects(`${origin}/loop`, { maxRedirects: 3 })).rejects.toThrow('Too many redirects')
+    })
+  })
+})
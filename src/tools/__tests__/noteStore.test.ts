@@ -0,0 +1,106 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { NoteDetail } from '../noteDetail'
+import { NoteStore } from '../noteStore'
+import { Comment } from '../rednoteTools'
+
+const NOTE: NoteDetail = {
+  noteId: '64b8c1f2000000001e03a1b1',
+  title: '周末去哪儿｜城市公园野餐攻略',
+  content: '带上野餐垫和水果',
+  tags: ['野餐'],
+  url: 'https://www.xiaohongshu.com/explore/64b8c1f2000000001e03a1b1',
+  author: '野餐小能手'
+}
+
+function comments(count: number): Comment[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `c${i}`,
+    author: '路过的猫',
+    content: `评论 ${i}`,
+    likes: i,
+    time: '2024-10-13T04:00:00.000Z'
+  }))
+}
+
+describe('NoteStore', () => {
+  let dir: string
+  let storePath: string
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rednote-store-'))
+    storePath = path.join(dir, 'notes.jsonl')
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  test('应该在 TTL 内返回已保存的笔记，过期后不再返回', () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1_000_000)
+    const store = new NoteStore({ path: storePath, ttl: 60_000 })
+    store.putNote(NOTE)
+
+    now.mockReturnValue(1_000_000 + 59_999)
+    expect(store.getNote(NOTE.noteId!)).toEqual(NOTE)
+    now.mockReturnValue(1_000_000 + 60_000)
+    expect(store.getNote(NOTE.noteId!)).toBeUndefined()
+  })
+
+  test('重启后应该能读回之前保存的内容', () => {
+    new NoteStore({ path: storePath }).putNote(NOTE)
+
+    expect(new NoteStore({ path: storePath }).getNote(NOTE.noteId!)).toEqual(NOTE)
+  })
+
+  test('TTL 为 0 时应该只记录不返回', () => {
+    const store = new NoteStore({ path: storePath, ttl: 0 })
+    store.putNote(NOTE)
+
+    expect(store.getNote(NOTE.noteId!)).toBeUndefined()
+    expect(store.stats().notes).toBe(1)
+  })
+
+  test('评论只有在覆盖请求时才返回', () => {
+    const store = new NoteStore({ path: storePath })
+    store.putComments('a', comments(20), { limit: 20, includeReplies: false })
+    store.putComments('b', comments(3), { limit: 20, includeReplies: true })
+
+    expect(store.getComments('a', { limit: 10, includeReplies: false })).toHaveLength(10)
+    expect(store.getComments('a', { limit: 50, includeReplies: false })).toBeUndefined()
+    expect(store.getComments('a', { limit: 10, includeReplies: true })).toBeUndefined()
+    // The list was shorter than the limit, so it already holds every comment
+    expect(store.getComments('b', { limit: 50, includeReplies: false })).toHaveLength(3)
+  })
+
+  test('stats 和 clear 应该反映存储内容', () => {
+    const store = new NoteStore({ path: storePath })
+    store.putNote(NOTE)
+    store.putComments(NOTE.noteId!, comments(2), { limit: 20, includeReplies: false })
+    store.putSearchHits('野餐', [
+      { id: 'a', title: 'a', content: '', tags: [], url: '', author: '' },
+      { id: 'b', title: 'b', content: '', tags: [], url: '', author: '' }
+    ])
+
+    expect(store.stats()).toMatchObject({ path: storePath, notes: 1, comments: 1, searchHits: 2 })
+    expect(store.stats().bytes).toBeGreaterThan(0)
+
+    store.clear()
+    expect(fs.existsSync(storePath)).toBe(false)
+    expect(store.stats()).toMatchObject({ notes: 0, comments: 0, searchHits: 0, bytes: 0 })
+  })
+
+  test('被覆盖的记录过多时应该压缩文件', () => {
+    const store = new NoteStore({ path: storePath })
+    for (let i = 0; i < 150; i++) {
+      store.putNote(NOTE)
+    }
+    fs.appendFileSync(storePath, 'not json\n')
+
+    const reopened = new NoteStore({ path: storePath })
+    expect(reopened.getNote(NOTE.noteId!)).toEqual(NOTE)
+    expect(fs.readFileSync(storePath, 'utf-8').trim().split('\n')).toHaveLength(1)
+  })
+})
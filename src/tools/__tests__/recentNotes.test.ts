@@ -0,0 +1,38 @@
+import { NoteDetail } from '../noteDetail'
+import { RecentNotes } from '../recentNotes'
+
+function note(noteId: string): NoteDetail {
+  return { noteId, title: `笔记 ${noteId}`, content: '', tags: [], url: '', author: '野餐小能手' }
+}
+
+describe('RecentNotes', () => {
+  test('新笔记和新评论应该改变资源列表，重复获取则不应该', () => {
+    const recent = new RecentNotes()
+
+    expect(recent.addNote('a', note('a'))).toBe(true)
+    expect(recent.addNote('a', note('a'))).toBe(false)
+    expect(recent.addComments('a', [])).toBe(true)
+    expect(recent.addComments('a', [])).toBe(false)
+    expect(recent.get('a')).toMatchObject({ noteId: 'a', note: note('a'), comments: [] })
+  })
+
+  test('应该按最近获取的顺序列出笔记', () => {
+    const recent = new RecentNotes()
+    recent.addNote('a', note('a'))
+    recent.addNote('b', note('b'))
+    recent.addComments('a', [])
+
+    expect(recent.list().map((entry) => entry.noteId)).toEqual(['a', 'b'])
+  })
+
+  test('超出上限时应该移除最早获取的笔记', () => {
+    const recent = new RecentNotes(2)
+    recent.addNote('a', note('a'))
+    recent.addNote('b', note('b'))
+
+    expect(recent.addNote('b', note('b'))).toBe(false)
+    expect(recent.addNote('c', note('c'))).toBe(true)
+    expect(recent.get('a')).toBeUndefined()
+    expect(recent.list().map((entry) => entry.noteId)).toEqual(['c', 'b'])
+  })
+})
@@ -1,19 +1,349 @@
-import { RedNoteTools, Note, Comment } from '../rednoteTools'
+import { fetchNotesBatch } from '../noteBatch'
+import { RedNoteTools } from '../rednoteTools'
+import { NoteNotFoundError, NotLoggedInError, RiskControlError } from '../../errors'
+import { describeWithBrowser, FixtureServer, startFixtureServer, writeCookieFile } from './fixtures/server'
+
+const NOTE_ID = '64b8c1f2000000001e03a1b1'
+const OTHER_NOTE_ID = '64b8c1f2000000001e03a1b2'
+const THIRD_NOTE_ID = '64b8c1f2000000001e03a1b3'
+const AUTHOR_ID = '5f0e1a2b000000000101c3d4'
+const BLOCKED_NOTE_ID = '64b8c1f2000000001e03b10c'
 
 // npm run test
-describe('RedNoteTools', () => {
-  let redNoteTools = new RedNoteTools()
+describeWithBrowser('RedNoteTools', () => {
+  let server: FixtureServer
+
+  beforeAll(async () => {
+    server = await startFixtureServer()
+  })
 
   afterAll(async () => {
-    await redNoteTools.cleanup()
+    await server.close()
   })
 
-  test('getNoteContent 应该返回笔记详情', async () => {
-    const url = '' // 需要替换为实际笔记URL
+  function createTools(loggedIn: boolean): RedNoteTools {
+    return new RedNoteTools({
+      auth: { baseUrl: server.baseUrl, cookiePath: writeCookieFile(loggedIn), headless: true },
+      throttle: { requestsPerMinute: 1000, minDelay: 0, maxDelay: 0 }
+    })
+  }
+
+  describe('已登录', () => {
+    let redNoteTools: RedNoteTools
+
+    beforeAll(() => {
+      redNoteTools = createTools(true)
+    })
+
+    afterAll(async () => {
+      await redNoteTools.cleanup()
+    })
+
+    test('initialize 应该通过登录检查', async () => {
+      await expect(redNoteTools.initialize()).resolves.toBeUndefined()
+    }, 30000)
+
+    test('checkLogin 应该确认登录有效并记录登录的用户', async () => {
+      const status = await redNoteTools.checkLogin({ verify: true })
+
+      expect(status).toMatchObject({
+        hasCookies: true,
+        loggedIn: true,
+        expired: false,
+        user: { userId: AUTHOR_ID, nickname: '野餐小能手', redId: '2718281828' }
+      })
+      expect(Date.parse(status.lastVerifiedAt!)).toBeGreaterThan(Date.now() - 60000)
+      // Read back from disk without opening the site
+      await expect(redNoteTools.checkLogin()).resolves.toMatchObject({
+        loggedIn: undefined,
+        user: { userId: AUTHOR_ID }
+      })
+    }, 30000)
+
+    test('searchNotes 默认应该从搜索接口返回结果', async () => {
+      const { notes, hasMore, cursor } = await redNoteTools.searchNotes('野餐', 2)
+
+      expect(notes).toHaveLength(2)
+      expect(notes[0]).toMatchObject({
+        id: NOTE_ID,
+        type: 'image',
+        title: '周末去哪儿｜城市公园野餐攻略',
+        author: '野餐小能手',
+        authorId: '5f0e1a2b000000000101c3d4',
+        cover: 'https://sns-webpic-qc.xhscdn.com/202410/picnic-1.jpg',
+        likes: 12568,
+        collects: 3021,
+        comments: 2,
+        xsecToken: 'ABpicnic1token'
+      })
+      expect(notes[0].url).toBe(`${server.baseUrl}/explore/${NOTE_ID}?xsec_token=ABpicnic1token&xsec_source=pc_search`)
+      expect(notes[1]).toMatchObject({ id: OTHER_NOTE_ID, type: 'video', author: '周末研究所', likes: 12000 })
+      expect(hasMore).toBe(true)
+      expect(cursor).toBeDefined()
+    }, 30000)
+
+    test('searchNotes 应该滚动加载直到达到数量限制并去重', async () => {
+      const { notes, hasMore, cursor } = await redNoteTools.searchNotes('野餐', 10)
+
+      expect(notes.map((note) => note.id)).toEqual([NOTE_ID, OTHER_NOTE_ID, THIRD_NOTE_ID])
+      expect(hasMore).toBe(false)
+      expect(cursor).toBeUndefined()
+    }, 60000)
+
+    test('searchNotes 应该能通过 cursor 继续上一次的结果', async () => {
+      const first = await redNoteTools.searchNotes('野餐', 2)
+      const second = await redNoteTools.searchNotes('野餐', 10, { cursor: first.cursor })
+
+      expect(second.notes.map((note) => note.id)).toEqual([THIRD_NOTE_ID])
+      expect(second.hasMore).toBe(false)
+      await expect(redNoteTools.searchNotes('露营', 10, { cursor: first.cursor })).rejects.toThrow('野餐')
+    }, 60000)
+
+    test('searchNotes 应该通过筛选面板按最新排序', async () => {
+      const { notes, hasMore, cursor } = await redNoteTools.searchNotes('野餐', 2, { filters: { sort: 'latest' } })
+
+      expect(notes.map((note) => note.id)).toEqual([THIRD_NOTE_ID, NOTE_ID])
+      expect(notes[0].publishTime).toBeDefined()
+      expect(hasMore).toBe(true)
+      await expect(redNoteTools.searchNotes('野餐', 2, { cursor })).rejects.toThrow('different filters')
+
+      const next = await redNoteTools.searchNotes('野餐', 2, { filters: { sort: 'latest' }, cursor })
+      expect(next.notes.map((note) => note.id)).toEqual([OTHER_NOTE_ID])
+      expect(next.hasMore).toBe(false)
+    }, 60000)
+
+    test('searchNotes 的 click 模式也应该应用筛选条件', async () => {
+      const { notes } = await redNoteTools.searchNotes('野餐', 1, { mode: 'click', filters: { sort: 'latest' } })
+
+      expect(notes.map((note) => note.id)).toEqual([THIRD_NOTE_ID])
+    }, 60000)
+
+    test('searchNotes 开启 fetchDetails 时应该补充正文和标签', async () => {
+      const { notes } = await redNoteTools.searchNotes('野餐', 1, { fetchDetails: true })
+
+      expect(notes).toHaveLength(1)
+      expect(notes[0]).toMatchObject({
+        id: NOTE_ID,
+        content: '带上野餐垫和水果，找一片树荫就是一个下午。 #野餐 #周末',
+        tags: ['野餐', '周末'],
+        // From the note's own timestamp rather than the "3天前" label
+        publishTime: '2024-10-12T04:00:00.000Z'
+      })
+    }, 30000)
+
+    test('searchNotes 的 click 模式应该逐条打开笔记抓取', async () => {
+      const { notes, hasMore } = await redNoteTools.searchNotes('野餐', 3, { mode: 'click' })
+
+      expect(notes).toHaveLength(3)
+      expect(notes[0]).toMatchObject({
+        id: NOTE_ID,
+        title: '周末去哪儿｜城市公园野餐攻略',
+        content: '带上野餐垫和水果，找一片树荫就是一个下午。',
+        author: '野餐小能手',
+        likes: 12568,
+        collects: 3021,
+        comments: 2
+      })
+      expect(notes[0].url).toContain(`/explore/${NOTE_ID}`)
+      expect(notes[0].publishTime).toBeDefined()
+      expect(notes[1]).toMatchObject({ title: '野餐篮里装什么', likes: 12000, collects: 0 })
+      expect(notes[1].publishTime).toMatch(/-09-27T16:00:00\.000Z$/)
+      expect(notes[2].id).toBe(THIRD_NOTE_ID)
+      expect(hasMore).toBe(true)
+    }, 90000)
+
+    test('getNoteContent 应该优先从页面初始状态读取笔记详情', async () => {
+      const url = `${server.baseUrl}/explore/${NOTE_ID}`
+      const note = await redNoteTools.getNoteContent(url)
+
+      expect(note).toMatchObject({
+        noteId: NOTE_ID,
+        type: 'image',
+        title: '周末去哪儿｜城市公园野餐攻略',
+        content: '带上野餐垫和水果，找一片树荫就是一个下午。 #野餐 #周末',
+        tags: ['野餐', '周末'],
+        author: '野餐小能手',
+        authorId: AUTHOR_ID,
+        authorUrl: `${server.baseUrl}/user/profile/${AUTHOR_ID}`,
+        url,
+        likes: 12568,
+        collects: 3021,
+        comments: 2,
+        shares: 57,
+        publishTime: '2024-10-12T04:00:00.000Z',
+        ipLocation: '上海'
+      })
+      expect(note.imgs).toEqual([
+        'https://sns-webpic-qc.xhscdn.com/202410/picnic-1.jpg',
+        'https://sns-webpic-qc.xhscdn.com/202410/picnic-2.jpg',
+        'https://sns-webpic-qc.xhscdn.com/202410/picnic-3.jpg'
+      ])
+    }, 30000)
+
+    test('没有初始状态时 getNoteContent 应该回退到页面抓取', async () => {
+      const url = `${server.baseUrl}/explore/${OTHER_NOTE_ID}`
+      const note = await redNoteTools.getNoteContent(url)
+
+      expect(note).toMatchObject({
+        noteId: OTHER_NOTE_ID,
+        title: '野餐篮里装什么',
+        content: '三明治、水果和一壶冷泡茶。',
+        tags: ['野餐'],
+        author: '周末研究所',
+        authorId: '60a1b2c3000000000100e5f6',
+        authorUrl: `${server.baseUrl}/user/profile/60a1b2c3000000000100e5f6`,
+        url,
+        likes: 12000,
+        collects: 0,
+        comments: 45
+      })
+      expect(note.missingFields).toEqual([])
+      expect(note.imgs).toEqual([
+        'https://sns-webpic-qc.xhscdn.com/202410/basket-1.jpg',
+        'https://sns-webpic-qc.xhscdn.com/202410/basket-2.jpg'
+      ])
+    }, 30000)
 
-    const actualURL = redNoteTools.extractRedBookUrl(url)
-    const note = await redNoteTools.getNoteContent(actualURL)
-    console.log(note)
-    expect(note).toBeDefined()
-  }, 600000)
+    test('fetchNotesBatch 应该并行获取笔记并按输入顺序返回单条错误', async () => {
+      const onResult = jest.fn()
+      const results = await fetchNotesBatch(
+        [`${server.baseUrl}/explore/${NOTE_ID}`, '不是链接', OTHER_NOTE_ID],
+        (input) => redNoteTools.getNoteContent(input),
+        { concurrency: 2, onResult }
+      )
+
+      expect(results.map((result) => result.input)).toEqual([
+        `${server.baseUrl}/explore/${NOTE_ID}`,
+        '不是链接',
+        OTHER_NOTE_ID
+      ])
+      expect(results[0].error === undefined && results[0].note.noteId).toBe(NOTE_ID)
+      expect(results[1].error).toContain('No note link or note id found')
+      expect(results[2].error === undefined && results[2].note.title).toBe('野餐篮里装什么')
+      expect(onResult).toHaveBeenCalledTimes(3)
+      expect(onResult).toHaveBeenLastCalledWith(expect.anything(), 3, 3)
+    }, 60000)
+
+    test('不存在的笔记应该报 NoteNotFoundError', async () => {
+      const missing = '64b8c1f2000000001e03ffff'
+      await expect(redNoteTools.getNoteContent(missing)).rejects.toBeInstanceOf(NoteNotFoundError)
+    }, 30000)
+
+    test('getUserProfile 应该读取用户主页信息', async () => {
+      const profile = await redNoteTools.getUserProfile(`${server.baseUrl}/user/profile/${AUTHOR_ID}`)
+
+      expect(profile).toMatchObject({
+        userId: AUTHOR_ID,
+        nickname: '野餐小能手',
+        redId: '2718281828',
+        fans: 34000,
+        likesAndCollects: 567000,
+        tags: ['上海浦东', '户外博主']
+      })
+    }, 30000)
+
+    test('listUserNotes 应该滚动加载用户笔记并支持 cursor', async () => {
+      const first = await redNoteTools.listUserNotes(AUTHOR_ID, 2)
+
+      expect(first.notes.map((note) => note.id)).toEqual([NOTE_ID, '64b8c1f2000000001e03a1c1'])
+      expect(first.hasMore).toBe(true)
+
+      const second = await redNoteTools.listUserNotes(AUTHOR_ID, 10, { cursor: first.cursor })
+      expect(second.notes.map((note) => note.id)).toEqual(['64b8c1f2000000001e03a1c2'])
+      expect(second.hasMore).toBe(false)
+    }, 60000)
+
+    test('getNoteComments 应该滚动加载一级评论直到达到数量限制', async () => {
+      const comments = await redNoteTools.getNoteComments(`${server.baseUrl}/explore/${NOTE_ID}`, { limit: 10 })
+
+      expect(comments.map((comment) => comment.content)).toEqual(['请问是哪个公园呀', '好美！收藏了', '周末人多吗'])
+      expect(comments[0]).toMatchObject({
+        id: '6710a2f0000000001c01c101',
+        author: '路过的猫',
+        authorId: '61a2b3c4000000000100a001',
+        likes: 12,
+        time: '2024-10-13T04:00:00.000Z',
+        ipLocation: '广东',
+        replyCount: 3
+      })
+      expect(comments[0].replies).toBeUndefined()
+
+      const first = await redNoteTools.getNoteComments(`${server.baseUrl}/explore/${NOTE_ID}`, { limit: 1 })
+      expect(first).toHaveLength(1)
+    }, 60000)
+
+    test('getNoteComments 开启 includeReplies 时应该展开全部回复', async () => {
+      const comments = await redNoteTools.getNoteComments(`${server.baseUrl}/explore/${NOTE_ID}`, {
+        limit: 2,
+        includeReplies: true
+      })
+
+      expect(comments).toHaveLength(2)
+      expect(comments[0].replies!.map((reply) => reply.content)).toEqual([
+        '世纪公园～',
+        '谢谢！周六去',
+        '同问停车方便吗'
+      ])
+      expect(comments[0].replies![1]).toMatchObject({
+        parentId: '6710a2f0000000001c01c101',
+        replyTo: { id: '6710a3b0000000001c01c111', author: '野餐小能手' }
+      })
+      expect(comments[1].replies).toEqual([])
+    }, 60000)
+  })
+
+  describe('风控', () => {
+    let redNoteTools: RedNoteTools
+
+    beforeAll(() => {
+      redNoteTools = createTools(true)
+    })
+
+    afterAll(async () => {
+      await redNoteTools.cleanup()
+    })
+
+    test('访问频繁页面应该报 RiskControlError 并暂停后续请求', async () => {
+      const error = await redNoteTools.getNoteContent(BLOCKED_NOTE_ID).catch((error) => error)
+      expect(error).toBeInstanceOf(RiskControlError)
+      expect(error.kind).toBe('rate_limit')
+
+      // Paused, so the next call fails without loading the page
+      const paused = await redNoteTools.getNoteContent(NOTE_ID, { forceRefresh: true }).catch((error) => error)
+      expect(paused).toBeInstanceOf(RiskControlError)
+      expect(paused.retryAt).toBeGreaterThan(Date.now())
+
+      await redNoteTools.reloadCookies()
+      await expect(redNoteTools.getNoteContent(NOTE_ID)).resolves.toMatchObject({ noteId: NOTE_ID })
+    }, 60000)
+  })
+
+  describe('未登录', () => {
+    let redNoteTools: RedNoteTools
+
+    beforeAll(() => {
+      redNoteTools = createTools(false)
+    })
+
+    afterAll(async () => {
+      await redNoteTools.cleanup()
+    })
+
+    test('checkLogin 没有 Cookie 时不打开页面', async () => {
+      await expect(redNoteTools.checkLogin({ verify: true })).resolves.toMatchObject({
+        hasCookies: false,
+        expired: true,
+        warning: 'No saved cookies, log in first'
+      })
+    })
+
+    test('initialize 应该提示未登录', async () => {
+      await expect(redNoteTools.initialize()).rejects.toThrow('Not logged in')
+    }, 30000)
+
+    test('工具调用应该在访问笔记前失败', async () => {
+      await expect(redNoteTools.getNoteContent(`${server.baseUrl}/explore/${NOTE_ID}`)).rejects.toThrow('Not logged in')
+      await expect(redNoteTools.getNoteContent(NOTE_ID)).rejects.toBeInstanceOf(NotLoggedInError)
+    }, 30000)
+  })
 })
@@ -0,0 +1,117 @@
+import fs from 'fs'
+import path from 'path'
+import {
+  decodeSearchCursor,
+  encodeSearchCursor,
+  mapSearchItem,
+  mapSearchResponse,
+  parseSearchFilters,
+  parseSearchMode,
+  searchFilterClicks
+} from '../searchFeed'
+
+const BASE_URL = 'https://www.xiaohongshu.com'
+// 2024-10-15 20:00 in China time
+const NOW = new Date('2024-10-15T12:00:00.000Z')
+
+function fixtureResponse() {
+  return JSON.parse(fs.readFileSync(path.join(__dirname, 'fixtures', 'api', 'search-notes-page1.json'), 'utf-8'))
+}
+
+describe('searchFeed', () => {
+  test('应该把搜索接口返回的笔记映射为 Note 并跳过非笔记条目', () => {
+    const notes = mapSearchResponse(fixtureResponse(), BASE_URL, NOW)
+
+    expect(notes).toEqual([
+      {
+        id: '64b8c1f2000000001e03a1b1',
+        type: 'image',
+        title: '周末去哪儿｜城市公园野餐攻略',
+        content: '',
+        tags: [],
+        url: `${BASE_URL}/explore/64b8c1f2000000001e03a1b1?xsec_token=ABpicnic1token&xsec_source=pc_search`,
+        cover: 'https://sns-webpic-qc.xhscdn.com/202410/picnic-1.jpg',
+        author: '野餐小能手',
+        authorId: '5f0e1a2b000000000101c3d4',
+        likes: 12568,
+        collects: 3021,
+        comments: 2,
+        shares: 57,
+        publishTime: '2024-10-12T12:00:00.000Z',
+        xsecToken: 'ABpicnic1token'
+      },
+      {
+        id: '64b8c1f2000000001e03a1b2',
+        type: 'video',
+        title: '野餐篮里装什么',
+        content: '',
+        tags: [],
+        url: `${BASE_URL}/explore/64b8c1f2000000001e03a1b2?xsec_token=ABbasket2token&xsec_source=pc_search`,
+        cover: 'https://sns-webpic-qc.xhscdn.com/202410/basket.jpg',
+        author: '周末研究所',
+        authorId: '60a1b2c3000000000100e5f6',
+        likes: 12000,
+        collects: undefined,
+        comments: 45,
+        shares: undefined,
+        publishTime: '2024-09-27T16:00:00.000Z',
+        xsecToken: 'ABbasket2token'
+      }
+    ])
+  })
+
+  test('没有 xsec_token 时链接不应该带查询参数', () => {
+    const note = mapSearchItem({ id: 'abc', model_type: 'note', note_card: { display_title: 't' } }, BASE_URL)
+    expect(note?.url).toBe(`${BASE_URL}/explore/abc`)
+  })
+
+  test('空响应应该返回空列表', () => {
+    expect(mapSearchResponse({ success: true, data: {} }, BASE_URL)).toEqual([])
+  })
+
+  test('cursor 应该能还原偏移量并校验关键词', () => {
+    const cursor = encodeSearchCursor('野餐', 20)
+
+    expect(decodeSearchCursor(cursor, '野餐')).toBe(20)
+    expect(() => decodeSearchCursor(cursor, '露营')).toThrow('野餐')
+    expect(() => decodeSearchCursor('not-a-cursor', '野餐')).toThrow('Invalid search cursor')
+    // JSON null and an array decode fine but carry no fields
+    expect(() => decodeSearchCursor('bnVsbA', '野餐')).toThrow('Invalid search cursor')
+    expect(() => decodeSearchCursor('W10', '野餐')).toThrow('Invalid search cursor')
+  })
+
+  test('只有非默认的筛选条件需要点击', () => {
+    expect(searchFilterClicks({})).toEqual([])
+    expect(searchFilterClicks({ sort: 'general', noteType: 'all', publishTime: 'all' })).toEqual([])
+    expect(searchFilterClicks({ sort: 'latest', noteType: 'video', publishTime: 'week' })).toEqual([
+      { group: '排序依据', label: '最新' },
+      { group: '笔记类型', label: '视频' },
+      { group: '发布时间', label: '一周内' }
+    ])
+  })
+
+  test('文本形式的筛选条件和搜索方式需要是可选值之一', () => {
+    expect(parseSearchFilters({ sort: 'latest', noteType: 'video', publishTime: undefined })).toEqual({
+      sort: 'latest',
+      noteType: 'video'
+    })
+    expect(() => parseSearchFilters({ sort: 'newest', noteType: 'all', publishTime: 'all' })).toThrow(
+      'Unknown sort "newest", use one of: general, latest, most_liked, most_commented, most_collected'
+    )
+    expect(() => parseSearchFilters({ sort: 'general', noteType: 'all', publishTime: 'month' })).toThrow(
+      'Unknown publishTime "month"'
+    )
+    expect(parseSearchMode('click')).toBe('click')
+    expect(() => parseSearchMode('scroll')).toThrow('Unknown search mode "scroll", use one of: api, click')
+  })
+
+  test('cursor 应该校验筛选条件', () => {
+    const cursor = encodeSearchCursor('野餐', 20, { sort: 'latest' })
+
+    expect(decodeSearchCursor(cursor, '野餐', { sort: 'latest', noteType: 'all' })).toBe(20)
+    expect(() => decodeSearchCursor(cursor, '野餐')).toThrow('different filters')
+    expect(() => decodeSearchCursor(encodeSearchCursor('野餐', 20), '野餐', { sort: 'latest' })).toThrow(
+      'different filters'
+    )
+  })
+})
@@ -0,0 +1,47 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { DEFAULT_SELECTORS, loadSelectorProfile } from '../selectors'
+
+function writeOverrides(overrides: unknown): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rednote-selectors-'))
+  const file = path.join(dir, 'selectors.json')
+  fs.writeFileSync(file, JSON.stringify(overrides))
+  return file
+}
+
+describe('loadSelectorProfile', () => {
+  test('没有覆盖文件时应该返回默认选择器', () => {
+    expect(loadSelectorProfile(path.join(os.tmpdir(), 'missing-selectors.json'))).toEqual(DEFAULT_SELECTORS)
+  })
+
+  test('覆盖文件中的字段应该替换默认的回退列表', () => {
+    const profile = loadSelectorProfile(
+      writeOverrides({
+        version: '2025.01-custom',
+        note: { title: ['.note-title-v2', '#detail-title'], author: '.author-v2 .name' }
+      })
+    )
+
+    expect(profile.version).toBe('2025.01-custom')
+    expect(profile.note.title).toEqual(['.note-title-v2', '#detail-title'])
+    expect(profile.note.author).toEqual(['.author-v2 .name'])
+    expect(profile.note.content).toEqual(DEFAULT_SELECTORS.note.content)
+    expect(profile.search).toEqual(DEFAULT_SELECTORS.search)
+  })
+
+  test('未知的分组和字段应该被忽略', () => {
+    const profile = loadSelectorProfile(writeOverrides({ unknown: { a: ['.a'] }, note: { unknown: ['.b'] } }))
+    expect(profile).toEqual(DEFAULT_SELECTORS)
+  })
+
+  test.each([null, 'title', ['.a']])('不是对象的分组 %p 应该被忽略', (group) => {
+    const profile = loadSelectorProfile(writeOverrides({ note: group, search: { noteItem: ['.x'] } }))
+    expect(profile.note).toEqual(DEFAULT_SELECTORS.note)
+    expect(profile.search.noteItem).toEqual(['.x'])
+  })
+
+  test('格式错误的覆盖应该报错', () => {
+    expect(() => loadSelectorProfile(writeOverrides({ note: { title: [1, 2] } }))).toThrow('note.title')
+  })
+})
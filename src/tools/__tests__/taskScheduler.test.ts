@@ -0,0 +1,71 @@
+import { TaskScheduler } from '../taskScheduler'
+import { BusyError, TimeoutError } from '../../errors'
+
+function delay<T>(ms: number, value: T): Promise<T> {
+  return new Promise((resolve) => setTimeout(() => resolve(value), ms))
+}
+
+describe('TaskScheduler', () => {
+  test('两个并发调用应该各自返回正确的结果', async () => {
+    const scheduler = new TaskScheduler({ concurrency: 2 })
+
+    const [search, note] = await Promise.all([
+      scheduler.run('search_notes', () => delay(30, ['note-a', 'note-b'])),
+      scheduler.run('get_note_content', () => delay(10, { title: 'note-c' }))
+    ])
+
+    expect(search).toEqual(['note-a', 'note-b'])
+    expect(note).toEqual({ title: 'note-c' })
+  })
+
+  test('超过并发上限的任务应该排队依次执行', async () => {
+    const scheduler = new TaskScheduler({ concurrency: 1 })
+    const order: string[] = []
+    let active = 0
+    let maxActive = 0
+
+    const job = (name: string) => async () => {
+      active++
+      maxActive = Math.max(maxActive, active)
+      order.push(`start:${name}`)
+      await delay(10, null)
+      order.push(`end:${name}`)
+      active--
+      return name
+    }
+
+    const results = await Promise.all([scheduler.run('a', job('a')), scheduler.run('b', job('b'))])
+
+    expect(results).toEqual(['a', 'b'])
+    expect(maxActive).toBe(1)
+    expect(order).toEqual(['start:a', 'end:a', 'start:b', 'end:b'])
+  })
+
+  test('队列已满时应该返回 BusyError', async () => {
+    const scheduler = new TaskScheduler({ concurrency: 1, maxQueueSize: 1 })
+
+    const running = scheduler.run('running', () => delay(20, 1))
+    const queued = scheduler.run('queued', () => delay(0, 2))
+
+    await expect(scheduler.run('rejected', () => delay(0, 3))).rejects.toBeInstanceOf(BusyError)
+    await expect(Promise.all([running, queued])).resolves.toEqual([1, 2])
+  })
+
+  test('超时的任务应该返回 TimeoutError 并在结束后释放槽位', async () => {
+    const scheduler = new TaskScheduler({ concurrency: 1 })
+
+    const slow = scheduler.run('slow', () => delay(50, 'late'), { timeout: 10 })
+    await expect(slow).rejects.toBeInstanceOf(TimeoutError)
+    expect(scheduler.stats.running).toBe(1)
+
+    await expect(scheduler.run('next', () => delay(0, 'ok'))).resolves.toBe('ok')
+    expect(scheduler.stats).toEqual({ running: 0, queued: 0 })
+  })
+
+  test('任务抛出的错误应该原样传递给调用方', async () => {
+    const scheduler = new TaskScheduler()
+    const error = new Error('Not logged in')
+
+    await expect(scheduler.run('failing', () => Promise.reject(error))).rejects.toBe(error)
+  })
+})
@@ -0,0 +1,101 @@
+import fs from 'fs'
+import path from 'path'
+import { parseInitialStateScript } from '../initialState'
+import {
+  decodeUserNotesCursor,
+  encodeUserNotesCursor,
+  mapStateUserNotes,
+  mapUserPageData,
+  mapUserPostedResponse,
+  userIdFromUrl
+} from '../userProfile'
+
+const BASE_URL = 'https://www.xiaohongshu.com'
+const USER_ID = '5f0e1a2b000000000101c3d4'
+
+function fixtureState(): unknown {
+  const html = fs.readFileSync(path.join(__dirname, 'fixtures', 'pages', `profile-${USER_ID}.html`), 'utf-8')
+  return parseInitialStateScript(html.match(/<script>(window\.__INITIAL_STATE__=.*?)<\/script>/)![1])
+}
+
+describe('userProfile', () => {
+  test.each([
+    [USER_ID, USER_ID],
+    [`${BASE_URL}/user/profile/${USER_ID}`, USER_ID],
+    [`${BASE_URL}/user/profile/${USER_ID}?xsec_token=AB123&xsec_source=pc_note`, USER_ID],
+    [`  ${USER_ID}\n`, USER_ID],
+    [`${BASE_URL}/explore/64b8c1f2000000001e03a1b1`, undefined],
+    ['野餐小能手', undefined]
+  ])('userIdFromUrl(%p) 应该返回 %p', (input, expected) => {
+    expect(userIdFromUrl(input)).toBe(expected)
+  })
+
+  test('应该从初始状态读取用户主页信息', () => {
+    expect(mapUserPageData(fixtureState(), USER_ID, BASE_URL)).toEqual({
+      userId: USER_ID,
+      nickname: '野餐小能手',
+      redId: '2718281828',
+      desc: '城市野餐 / 露营 / 骑行\n周末在公园见',
+      avatar: 'https://sns-avatar-qc.xhscdn.com/avatar/picnic.jpg?imageView2/2/w/540',
+      ipLocation: '上海',
+      follows: 128,
+      fans: 34000,
+      likesAndCollects: 567000,
+      tags: ['上海浦东', '户外博主'],
+      url: `${BASE_URL}/user/profile/${USER_ID}`
+    })
+    expect(mapUserPageData({ user: {} }, USER_ID, BASE_URL)).toBeNull()
+  })
+
+  test('应该从初始状态读取第一页笔记', () => {
+    const result = mapStateUserNotes(fixtureState(), BASE_URL)
+
+    expect(result?.hasMore).toBe(true)
+    expect(result?.notes.map((note) => note.id)).toEqual(['64b8c1f2000000001e03a1b1', '64b8c1f2000000001e03a1c1'])
+    expect(result?.notes[0]).toMatchObject({
+      title: '周末去哪儿｜城市公园野餐攻略',
+      author: '野餐小能手',
+      authorId: USER_ID,
+      likes: 12568,
+      url: `${BASE_URL}/explore/64b8c1f2000000001e03a1b1?xsec_token=ABpicnic1token&xsec_source=pc_user`
+    })
+    expect(mapStateUserNotes({ user: {} }, BASE_URL)).toBeNull()
+  })
+
+  test('页面里为 undefined 的标签和互动数据按缺失处理', () => {
+    const state = parseInitialStateScript(
+      'window.__INITIAL_STATE__={"user":{"userPageData":{"basicInfo":{"nickname":"野餐小能手"},"interactions":undefined,"tags":undefined}}}'
+    )
+    expect(mapUserPageData(state, USER_ID, BASE_URL)).toMatchObject({ nickname: '野餐小能手', tags: [] })
+  })
+
+  test('结构不对的初始状态不会抛出异常', () => {
+    expect(mapUserPageData(null, USER_ID, BASE_URL)).toBeNull()
+    expect(mapUserPageData({ user: { userPageData: { basicInfo: {}, tags: 'x' } } }, USER_ID, BASE_URL)).toBeNull()
+    expect(mapStateUserNotes({ user: { notes: [[null, 'x', { noteCard: 1 }]] } }, BASE_URL)).toEqual({
+      notes: [],
+      hasMore: true
+    })
+  })
+
+  test('应该映射 user_posted 接口返回的笔记', () => {
+    const response = JSON.parse(
+      fs.readFileSync(path.join(__dirname, 'fixtures', 'api', `user-posted-${USER_ID}.json`), 'utf-8')
+    )
+    const notes = mapUserPostedResponse(response, BASE_URL)
+
+    expect(notes).toHaveLength(2)
+    expect(notes[1]).toMatchObject({ id: '64b8c1f2000000001e03a1c2', type: 'video', likes: 15000 })
+  })
+
+  test('cursor 应该能还原偏移量并校验用户', () => {
+    const cursor = encodeUserNotesCursor(USER_ID, 20)
+
+    expect(decodeUserNotesCursor(cursor, USER_ID)).toBe(20)
+    expect(() => decodeUserNotesCursor(cursor, '60a1b2c3000000000100e5f6')).toThrow(USER_ID)
+    expect(() => decodeUserNotesCursor('not-a-cursor', USER_ID)).toThrow('Invalid user notes cursor')
+    // JSON null and an array decode fine but carry no fields
+    expect(() => decodeUserNotesCursor('bnVsbA', USER_ID)).toThrow('Invalid user notes cursor')
+    expect(() => decodeUserNotesCursor('W10', USER_ID)).toThrow('Invalid user notes cursor')
+  })
+})
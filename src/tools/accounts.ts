@@ -0,0 +1,133 @@
+import { DEFAULT_PROFILE, listProfiles, profileExists, REDNOTE_DIR, validateProfileName } from '../auth/profiles'
+import { NotLoggedInError, RiskControlError } from '../errors'
+import logger from '../utils/logger'
+import { RedNoteTools } from './rednoteTools'
+
+export interface AccountPoolOptions {
+  /** Builds the tools for one account, each gets its own browser session and cookie jar */
+  createTools: (account: string) => RedNoteTools
+  /** Account used when a call does not name one */
+  active?: string
+  /** Directory holding the account profiles, only overridden by tests */
+  root?: string
+}
+
+export interface AccountInfo {
+  name: string
+  active: boolean
+  /** ISO 8601 time until which the account is paused after a captcha or rate limit */
+  pausedUntil?: string
+}
+
+/**
+ * Named accounts sharing one server. Calls go to the active account unless they name one, and
+ * calls that do not name one move on to the next account when the site blocks the current one.
+ */
+export class AccountPool {
+  private readonly createTools: (account: string) => RedNoteTools
+  private readonly root: string
+  private readonly tools = new Map<string, RedNoteTools>()
+  private activeAccount: string
+
+  constructor(options: AccountPoolOptions) {
+    this.createTools = options.createTools
+    this.root = options.root || REDNOTE_DIR
+    this.activeAccount = validateProfileName(options.active || DEFAULT_PROFILE)
+  }
+
+  get active(): string {
+    return this.activeAccount
+  }
+
+  /**
+   * Tools of an account, the active one by default. Accounts that never logged in are
+   * only handed out as the active account, so a fresh install still reports NOT_LOGGED_IN.
+   */
+  get(account?: string): RedNoteTools {
+    const name = validateProfileName(account || this.activeAccount)
+    if (name !== this.activeAccount && !profileExists(name, this.root)) {
+      throw notLoggedIn(name)
+    }
+    let tools = this.tools.get(name)
+    if (!tools) {
+      tools = this.createTools(name)
+      this.tools.set(name, tools)
+    }
+    return tools
+  }
+
+  /**
+   * Make another account the default for calls that do not name one
+   */
+  switch(account: string): void {
+    const name = validateProfileName(account)
+    if (!profileExists(name, this.root)) {
+      throw notLoggedIn(name)
+    }
+    logger.info(`Switching active account from ${this.activeAccount} to ${name}`)
+    this.activeAccount = name
+  }
+
+  /**
+   * Close the account's browser and delete its saved login, it has to scan a QR code again to be used
+   */
+  async logout(account?: string): Promise<string> {
+    const name = validateProfileName(account || this.activeAccount)
+    await this.get(name).logout()
+    this.tools.delete(name)
+    logger.info(`Logged out account ${name}`)
+    return name
+  }
+
+  list(): AccountInfo[] {
+    const names = listProfiles(this.root)
+    if (!names.includes(this.activeAccount)) names.unshift(this.activeAccount)
+    return names.map((name) => {
+      const pausedUntil = this.tools.get(name)?.pausedUntil
+      return {
+        name,
+        active: name === this.activeAccount,
+        pausedUntil: pausedUntil ? new Date(pausedUntil).toISOString() : undefined
+      }
+    })
+  }
+
+  /**
+   * Run a call on the named account, or on the active one with the other logged-in accounts as
+   * fallbacks in turn while the site keeps answering with captcha or rate limit pages
+   */
+  async run<T>(account: string | undefined, job: (tools: RedNoteTools, account: string) => Promise<T>): Promise<T> {
+    if (account) {
+      return job(this.get(account), validateProfileName(account))
+    }
+
+    const others = listProfiles(this.root).filter((name) => name !== this.activeAccount)
+    const candidates = [this.activeAccount, ...others]
+    let lastError: unknown
+    for (const name of candidates) {
+      const tools = this.get(name)
+      if (tools.pausedUntil && name !== candidates[candidates.length - 1]) {
+        logger.info(`Skipping paused account ${name}`)
+        continue
+      }
+      try {
+        return await job(tools, name)
+      } catch (error) {
+        if (!(error instanceof RiskControlError)) throw error
+        logger.warn(`Account ${name} is blocked (${error.kind}), trying the next account`)
+        lastError = error
+      }
+    }
+    throw lastError
+  }
+
+  async cleanup(): Promise<void> {
+    await Promise.all(Array.from(this.tools.values()).map((tools) => tools.cleanup()))
+  }
+}
+
+function notLoggedIn(account: string): NotLoggedInError {
+  return new NotLoggedInError(
+    `Account ${account} has not logged in yet, call login with this account or run rednote-mcp init --profile ${account}`
+  )
+}
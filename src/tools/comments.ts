@@ -0,0 +1,139 @@
+import { parseCount } from '../utils/count'
+import { Comment } from './rednoteTools'
+
+/** Path of the API the note page calls for every page of top-level comments */
+export const COMMENT_API_PATH = '/api/sns/web/v2/comment/page'
+/** Path of the API the note page calls when more replies to a comment are expanded */
+export const SUB_COMMENT_API_PATH = '/api/sns/web/v2/comment/sub/page'
+
+interface CommentUser {
+  user_id?: string
+  nickname?: string
+  image?: string
+}
+
+/** One comment as returned by the comment APIs */
+export interface CommentItem {
+  id: string
+  note_id?: string
+  content?: string
+  /** Milliseconds since the epoch */
+  create_time?: number
+  ip_location?: string
+  like_count?: string | number
+  user_info?: CommentUser
+  /** Only on replies, the comment being answered when it is not the top-level one */
+  target_comment?: { id: string; user_info?: CommentUser }
+  sub_comment_count?: string | number
+  /** The first few replies, delivered with the top-level comment */
+  sub_comments?: CommentItem[]
+  sub_comment_has_more?: boolean
+}
+
+export interface CommentResponse {
+  code?: number
+  success?: boolean
+  msg?: string
+  data?: {
+    comments?: CommentItem[]
+    cursor?: string
+    has_more?: boolean
+  }
+}
+
+/**
+ * Map a comment from the API. Replies get the id of their top-level comment as parentId,
+ * and replyTo when they answer another reply.
+ */
+export function mapComment(item: CommentItem, parentId?: string): Comment {
+  const comment: Comment = {
+    id: item.id,
+    author: item.user_info?.nickname || '',
+    authorId: item.user_info?.user_id,
+    content: item.content || '',
+    likes: parseCount(item.like_count) ?? 0,
+    time: item.create_time ? new Date(item.create_time).toISOString() : '',
+    ipLocation: item.ip_location
+  }
+  if (parentId) {
+    comment.parentId = parentId
+    const target = item.target_comment
+    if (target && target.id !== parentId) {
+      comment.replyTo = { id: target.id, author: target.user_info?.nickname || '', authorId: target.user_info?.user_id }
+    }
+  } else {
+    comment.replyCount = parseCount(item.sub_comment_count) ?? 0
+  }
+  return comment
+}
+
+/**
+ * Builds the comment tree from the comment API responses as they arrive, ignoring
+ * comments that were already seen
+ */
+export class CommentThread {
+  readonly comments: Comment[] = []
+  private readonly includeReplies: boolean
+  private readonly byId = new Map<string, Comment>()
+  /** Top-level comments whose remaining replies can be loaded with "展开更多回复" */
+  private readonly moreReplies = new Set<string>()
+
+  constructor(includeReplies: boolean) {
+    this.includeReplies = includeReplies
+  }
+
+  /**
+   * Add a page of top-level comments
+   * @returns Number of new top-level comments
+   */
+  addPage(response: CommentResponse): number {
+    let added = 0
+    for (const item of response.data?.comments || []) {
+      if (!item.id || this.byId.has(item.id)) continue
+      const comment = mapComment(item)
+      this.byId.set(comment.id, comment)
+      this.comments.push(comment)
+      added++
+      if (this.includeReplies) {
+        comment.replies = []
+        this.addReplies(comment.id, item.sub_comments || [])
+        if (item.sub_comment_has_more) this.moreReplies.add(comment.id)
+      }
+    }
+    return added
+  }
+
+  /**
+   * Add a page of replies to a top-level comment
+   */
+  addReplyPage(parentId: string, response: CommentResponse): void {
+    this.addReplies(parentId, response.data?.comments || [])
+    if (!response.data?.has_more) this.moreReplies.delete(parentId)
+  }
+
+  /**
+   * Whether a top-level comment still has replies that were not loaded
+   */
+  hasMoreReplies(parentId: string): boolean {
+    return this.moreReplies.has(parentId)
+  }
+
+  /**
+   * Stop expanding a comment, e.g. when its button is gone
+   */
+  skipReplies(parentId: string): void {
+    this.moreReplies.delete(parentId)
+  }
+
+  private addReplies(parentId: string, items: CommentItem[]): void {
+    const parent = this.byId.get(parentId)
+    if (!parent) return
+    for (const item of items) {
+      if (!item.id || this.byId.has(item.id)) continue
+      const reply = mapComment(item, parentId)
+      this.byId.set(reply.id, reply)
+      parent.replies = parent.replies || []
+      parent.replies.push(reply)
+    }
+  }
+}
@@ -0,0 +1,170 @@
+import { Page } from 'playwright'
+import logger from '../utils/logger'
+import { parseCount } from '../utils/count'
+import { NoteDetail } from './noteDetail'
+
+/** Subset of a note as embedded in window.__INITIAL_STATE__ */
+export interface StateNote {
+  noteId: string
+  type?: 'normal' | 'video'
+  title?: string
+  desc?: string
+  time?: number
+  lastUpdateTime?: number
+  ipLocation?: string
+  tagList?: { id?: string; name?: string; type?: string }[]
+  imageList?: {
+    urlDefault?: string
+    urlPre?: string
+    url?: string
+    width?: number
+    height?: number
+    infoList?: { imageScene?: string; url?: string }[]
+  }[]
+  video?: {
+    media?: {
+      stream?: Record<string, { masterUrl?: string; backupUrls?: string[] }[] | undefined>
+    }
+  }
+  user?: {
+    userId?: string
+    nickname?: string
+    nickName?: string
+    avatar?: string
+  }
+  interactInfo?: {
+    likedCount?: string | number
+    collectedCount?: string | number
+    commentCount?: string | number
+    shareCount?: string | number
+  }
+}
+
+const STATE_PREFIX = 'window.__INITIAL_STATE__='
+
+/**
+ * Whether a value from the page's JSON is a plain object whose fields can be looked at
+ */
+export function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+/**
+ * Follow a path of keys through the page's JSON, undefined as soon as one step is not an object
+ */
+export function pick(value: unknown, ...keys: string[]): unknown {
+  let current = value
+  for (const key of keys) {
+    if (!isObject(current)) return undefined
+    current = current[key]
+  }
+  return current
+}
+
+function isStateNote(value: unknown): value is StateNote {
+  return isObject(value) && typeof value.noteId === 'string' && value.noteId !== ''
+}
+
+/**
+ * Parse the inline script that assigns window.__INITIAL_STATE__. The site serializes missing
+ * values as a bare `undefined`, which is not JSON, so those are turned into null first.
+ */
+export function parseInitialStateScript(script: string): unknown {
+  const start = script.indexOf(STATE_PREFIX)
+  if (start === -1) return null
+
+  const json = script
+    .slice(start + STATE_PREFIX.length)
+    .trim()
+    .replace(/;\s*$/, '')
+    .replace(/([:,\[])\s*undefined(?=\s*[,}\]])/g, '$1null')
+  try {
+    return JSON.parse(json)
+  } catch (error) {
+    logger.warn('Failed to parse initial state:', error)
+    return null
+  }
+}
+
+/**
+ * Find a note in the state's noteDetailMap, the one with noteId if given, else the first one
+ */
+export function findStateNote(state: unknown, noteId?: string): StateNote | null {
+  const detailMap = pick(state, 'note', 'noteDetailMap')
+  if (!isObject(detailMap)) return null
+
+  const entries = noteId ? [detailMap[noteId]] : Object.values(detailMap)
+  for (const entry of entries) {
+    const note = pick(entry, 'note')
+    if (isStateNote(note)) return note
+  }
+  return null
+}
+
+/**
+ * Map a note from the initial state onto NoteDetail
+ */
+export function mapStateNote(note: StateNote): NoteDetail {
+  const tags = (note.tagList || []).map((tag) => tag.name || '').filter(Boolean)
+
+  const imgs = (note.imageList || [])
+    .map((image) => {
+      const preferred = image.infoList?.find((info) => info.imageScene === 'WB_DFT')?.url
+      return preferred || image.urlDefault || image.url || image.urlPre || ''
+    })
+    .filter(Boolean)
+
+  const videos: string[] = []
+  const stream = note.video?.media?.stream
+  if (stream) {
+    for (const codec of ['h264', 'h265', 'av1']) {
+      const url = stream[codec]?.find((item) => item.masterUrl)?.masterUrl
+      if (url) {
+        videos.push(url)
+        break
+      }
+    }
+  }
+
+  return {
+    noteId: note.noteId,
+    type: note.type === 'video' ? 'video' : 'image',
+    title: note.title || '',
+    // Hashtags are stored as "#name[话题]#" in the description
+    content: (note.desc || '').replace(/#([^#\[\]]+)\[话题\]#/g, '#$1').trim(),
+    tags,
+    imgs,
+    videos,
+    url: '',
+    author: note.user?.nickname || note.user?.nickName || '',
+    authorId: note.user?.userId,
+    authorAvatar: note.user?.avatar,
+    likes: parseCount(note.interactInfo?.likedCount),
+    collects: parseCount(note.interactInfo?.collectedCount),
+    comments: parseCount(note.interactInfo?.commentCount),
+    shares: parseCount(note.interactInfo?.shareCount),
+    publishTime: note.time ? new Date(note.time).toISOString() : undefined,
+    lastUpdateTime: note.lastUpdateTime ? new Date(note.lastUpdateTime).toISOString() : undefined,
+    ipLocation: note.ipLocation
+  }
+}
+
+/**
+ * Read the server-rendered initial state of the current page
+ */
+export async function readInitialState(page: Page): Promise<unknown> {
+  const script = await page.evaluate((prefix) => {
+    const scripts = Array.from(document.querySelectorAll('script'))
+    return scripts.map((item) => item.textContent || '').find((text) => text.includes(prefix)) || null
+  }, STATE_PREFIX)
+  return script ? parseInitialStateScript(script) : null
+}
+
+/**
+ * Extract a note from the page's initial state, returns null when the page has none
+ */
+export async function getNoteFromInitialState(page: Page, noteId?: string): Promise<NoteDetail | null> {
+  const state = await readInitialState(page)
+  const note = findStateNote(state, noteId)
+  return note ? mapStateNote(note) : null
+}
@@ -0,0 +1,175 @@
+import crypto from 'crypto'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { APIRequestContext, Page } from 'playwright'
+import logger from '../utils/logger'
+import { NoteDetail } from './noteDetail'
+
+/** Where downloaded media goes unless --media-dir says otherwise */
+export const DEFAULT_MEDIA_DIR = path.join(os.homedir(), '.mcp', 'rednote', 'media')
+
+export type MediaType = 'image' | 'video'
+
+export interface MediaFile {
+  type: MediaType
+  /** Position among the note's images or videos */
+  index: number
+  url: string
+  /** File name inside the note's media directory, the sha256 of the content plus an extension */
+  file: string
+  sha256: string
+  bytes: number
+  contentType: string
+}
+
+export interface MediaManifest {
+  noteId: string
+  title: string
+  author: string
+  url: string
+  downloadedAt: string
+  files: MediaFile[]
+  /** Media that could not be downloaded, e.g. blob URLs or expired links */
+  failed: { type: MediaType; url: string; error: string }[]
+}
+
+export interface FetchedMedia {
+  body: Buffer
+  contentType: string
+}
+
+export type MediaFetcher = (url: string) => Promise<FetchedMedia>
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/webp': '.webp',
+  'image/gif': '.gif',
+  'image/avif': '.avif',
+  'image/heic': '.heic',
+  'video/mp4': '.mp4',
+  'video/quicktime': '.mov'
+}
+
+/**
+ * File extension for downloaded media, from its content type or else from the URL
+ */
+export function mediaExtension(contentType: string, url: string): string {
+  const known = EXTENSIONS[contentType.split(';')[0].trim().toLowerCase()]
+  if (known) return known
+  try {
+    const extension = path.extname(new URL(url).pathname).toLowerCase()
+    if (/^\.[a-z0-9]{2,5}$/.test(extension)) return extension
+  } catch (error) {
+    // Not a URL, fall through
+  }
+  return '.bin'
+}
+
+/**
+ * Fetch media with the browser context's cookies, so links that need a session still work
+ */
+export function createRequestFetcher(request: APIRequestContext, referer: string): MediaFetcher {
+  return async (url) => {
+    const response = await request.get(url, { headers: { Referer: referer } })
+    if (!response.ok()) {
+      throw new Error(`HTTP ${response.status()}`)
+    }
+    return { body: await response.body(), contentType: response.headers()['content-type'] || '' }
+  }
+}
+
+/**
+ * Download every image and video of a note into dir/{noteId}, naming each file after the sha256
+ * of its content, and write manifest.json next to them. Files that already exist are not rewritten.
+ */
+export async function downloadNoteMedia(
+  note: NoteDetail,
+  dir: string,
+  fetchMedia: MediaFetcher
+): Promise<{ manifest: MediaManifest; manifestPath: string }> {
+  const noteId = note.noteId || crypto.createHash('sha256').update(note.url).digest('hex').slice(0, 24)
+  const noteDir = path.join(dir, noteId)
+  fs.mkdirSync(noteDir, { recursive: true })
+
+  const manifest: MediaManifest = {
+    noteId,
+    title: note.title,
+    author: note.author,
+    url: note.url,
+    downloadedAt: new Date().toISOString(),
+    files: [],
+    failed: []
+  }
+
+  const sources: { type: MediaType; urls: string[] }[] = [
+    { type: 'image', urls: note.imgs || [] },
+    { type: 'video', urls: note.videos || [] }
+  ]
+  for (const { type, urls } of sources) {
+    for (const [index, url] of urls.entries()) {
+      if (!/^https?:\/\//.test(url)) {
+        manifest.failed.push({ type, url, error: 'Only http(s) URLs can be downloaded' })
+        continue
+      }
+      try {
+        logger.info(`Downloading ${type} ${index + 1}/${urls.length} of note ${noteId}`)
+        const { body, contentType } = await fetchMedia(url)
+        const sha256 = crypto.createHash('sha256').update(body).digest('hex')
+        const file = `${sha256}${mediaExtension(contentType, url)}`
+        const filePath = path.join(noteDir, file)
+        if (!fs.existsSync(filePath)) {
+          fs.writeFileSync(filePath, body)
+        }
+        manifest.files.push({ type, index, url, file, sha256, bytes: body.length, contentType })
+      } catch (error) {
+        logger.warn(`Failed to download ${url}:`, error)
+        manifest.failed.push({ type, url, error: error instanceof Error ? error.message : String(error) })
+      }
+    }
+  }
+
+  const manifestPath = path.join(noteDir, 'manifest.json')
+  fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2))
+  logger.info(`Saved ${manifest.files.length} media files of note ${noteId} to ${noteDir}`)
+  return { manifest, manifestPath }
+}
+
+/**
+ * Re-encode an image as JPEG in the browser, scaling it down until it fits in maxBytes.
+ * The page must not have a CSP that blocks data: images, about:blank is fine.
+ * @returns Base64 image data, or null if it cannot be made small enough
+ */
+export async function shrinkImage(
+  page: Page,
+  image: Buffer,
+  contentType: string,
+  maxBytes: number
+): Promise<{ data: string; mimeType: string } | null> {
+  if (image.length <= maxBytes) {
+    return { data: image.toString('base64'), mimeType: contentType.split(';')[0] || 'image/jpeg' }
+  }
+
+  const data = await page.evaluate(
+    async ({ src, maxBytes }) => {
+      const element = new Image()
+      element.src = src
+      await element.decode()
+      let scale = 1
+      for (let attempt = 0; attempt < 8; attempt++) {
+        const canvas = document.createElement('canvas')
+        canvas.width = Math.max(1, Math.round(element.naturalWidth * scale))
+        canvas.height = Math.max(1, Math.round(element.naturalHeight * scale))
+        canvas.getContext('2d')!.drawImage(element, 0, 0, canvas.width, canvas.height)
+        const dataUrl = canvas.toDataURL('image/jpeg', 0.85)
+        const base64 = dataUrl.slice(dataUrl.indexOf(',') + 1)
+        if ((base64.length * 3) / 4 <= maxBytes) return base64
+        scale *= 0.7
+      }
+      return null
+    },
+    { src: `data:${contentType};base64,${image.toString('base64')}`, maxBytes }
+  )
+  return data ? { data, mimeType: 'image/jpeg' } : null
+}
@@ -0,0 +1,49 @@
+import { describeError, ErrorCode } from '../errors'
+import logger from '../utils/logger'
+import { NoteDetail } from './noteDetail'
+
+/** Outcome for one input of a batch, a failed note does not fail the others */
+export type BatchNoteResult =
+  { input: string; note: NoteDetail; error?: undefined } | { input: string; error: string; code: ErrorCode }
+
+export interface NoteBatchOptions {
+  /** Number of notes fetched at the same time */
+  concurrency?: number
+  /** Called as each note finishes, in completion order */
+  onResult?: (result: BatchNoteResult, done: number, total: number) => void
+}
+
+/**
+ * Fetch every input with a few workers, returning the results in input order.
+ * The caller decides how a single note is fetched, e.g. through the scheduler and the account pool.
+ */
+export async function fetchNotesBatch(
+  inputs: string[],
+  fetchNote: (input: string) => Promise<NoteDetail>,
+  options: NoteBatchOptions = {}
+): Promise<BatchNoteResult[]> {
+  const concurrency = Math.max(1, Math.min(options.concurrency ?? 2, inputs.length))
+  logger.info(`Fetching ${inputs.length} notes, ${concurrency} at a time`)
+  const results: BatchNoteResult[] = new Array(inputs.length)
+  let next = 0
+  let done = 0
+
+  const worker = async () => {
+    while (next < inputs.length) {
+      const index = next++
+      const input = inputs[index]
+      try {
+        results[index] = { input, note: await fetchNote(input) }
+      } catch (error) {
+        logger.warn(`Failed to fetch note ${input}:`, error)
+        const { code, message } = describeError(error)
+        results[index] = { input, error: message, code }
+      }
+      options.onResult?.(results[index], ++done, inputs.length)
+    }
+  }
+  await Promise.all(Array.from({ length: concurrency }, worker))
+
+  logger.info(`Fetched ${results.filter((result) => !result.error).length}/${inputs.length} notes`)
+  return results
+}
@@ -1,8 +1,15 @@
-import { Note } from './rednoteTools'
 import logger from '../utils/logger'
 import { Page } from 'playwright'
+import { anyOf, getSelectors, SelectorProfile } from './selectors'
+import { getNoteFromInitialState } from './initialState'
+import { parseCount } from '../utils/count'
+import { parseDisplayTime } from '../utils/time'
+import { userIdFromUrl, userProfileUrl } from './userProfile'
+import { NoteNotFoundError, NoteRequiresLoginError, RedNoteError, TimeoutError } from '../errors'
 
 export interface NoteDetail {
+  noteId?: string
+  type?: 'image' | 'video'
   title: string
   content: string
   tags: string[]
@@ -10,62 +17,132 @@ export interface NoteDetail {
   videos?: string[]
   url: string
   author: string
+  authorId?: string
+  /** Profile page of the author, pass it to get_user_profile or list_user_notes */
+  authorUrl?: string
+  authorAvatar?: string
   likes?: number
   collects?: number
   comments?: number
+  shares?: number
+  /** ISO 8601 timestamps */
+  publishTime?: string
+  lastUpdateTime?: string
+  ipLocation?: string
+  /** Fields none of the configured selectors matched, their values are empty */
+  missingFields?: string[]
 }
 
+/**
+ * Note id from a note page URL such as /explore/{id} or /discovery/item/{id}
+ */
+export function noteIdFromUrl(url: string): string | undefined {
+  return url.match(/\/(?:explore|discovery\/item)\/([0-9a-zA-Z]+)/)?.[1]
+}
+
+export interface NotePageSnapshot {
+  /** URL the page ended up at after redirects */
+  url: string
+  /** HTTP status of the main document, if known */
+  status?: number
+  /** Visible text of the page */
+  text: string
+}
+
+const UNAVAILABLE_TEXT = ['笔记不存在', '当前笔记暂时无法浏览', '该笔记已被删除', '内容已被删除', '你访问的页面不见了']
+// Error pages say one thing, a note that quotes these phrases has plenty of other text
+const MAX_ERROR_PAGE_TEXT = 1000
+
+/**
+ * The error for a note page the site refused to show, null when the page shows the note
+ */
+export function classifyNotePage(snapshot: NotePageSnapshot, noteId: string): RedNoteError | null {
+  const url = new URL(snapshot.url)
+  if (snapshot.status === 404 || url.pathname.startsWith('/404')) {
+    return new NoteNotFoundError(noteId, url.searchParams.get('error_msg') || undefined)
+  }
+  if (/login/i.test(url.pathname)) {
+    return new NoteRequiresLoginError(noteId)
+  }
+  const text = snapshot.text.length <= MAX_ERROR_PAGE_TEXT ? snapshot.text : ''
+  const marker = UNAVAILABLE_TEXT.find((phrase) => text.includes(phrase))
+  return marker ? new NoteNotFoundError(noteId, marker) : null
+}
+
+/**
+ * Read a note from the page's embedded initial state, falling back to scraping the DOM
+ */
 export async function GetNoteDetail(page: Page, timeout: number = 30000): Promise<NoteDetail> {
+  const noteId = noteIdFromUrl(page.url())
+  const stateNote = await getNoteFromInitialState(page, noteId)
+  if (stateNote) {
+    logger.info(`Read note ${stateNote.noteId} from initial state`)
+    if (stateNote.authorId) {
+      stateNote.authorUrl = userProfileUrl(stateNote.authorId, page.url())
+    }
+    return stateNote
+  }
+  logger.info('No initial state found, scraping the page')
+  const note = await GetNoteDetailFromDom(page, timeout)
+  note.noteId = noteId
+  return note
+}
+
+export async function GetNoteDetailFromDom(page: Page, timeout: number = 30000): Promise<NoteDetail> {
+  const selectors = getSelectors().note
+
   // Wait for content to load
   logger.info('Waiting for content to load')
   try {
-    await page.waitForSelector('.note-container', { timeout })
-    await page.waitForSelector('.media-container', { timeout })
+    await page.waitForSelector(anyOf(selectors.container), { timeout })
+    await page.waitForSelector(anyOf(selectors.media), { timeout })
   } catch (error) {
-    throw new Error(`笔记内容加载超时 (${timeout}ms)`)
+    throw new TimeoutError(`Note content did not load within ${timeout}ms`)
   }
 
-  async function getContent() {
-    function ChineseUnitStrToNumber(str: string) {
-      if (str.includes('万')) {
-        return Number(str.replace('万', '').trim()) * 10000
-      } else {
-        return Number(str)
+  function getContent(sel: SelectorProfile['note']) {
+    const missingFields: string[] = []
+    // Try each fallback in order and remember fields none of them matched
+    function pick(root: ParentNode, field: string, list: string[]): Element | null {
+      for (const selector of list) {
+        const element = root.querySelector(selector)
+        if (element) return element
+      }
+      missingFields.push(field)
+      return null
+    }
+    function pickAll(root: ParentNode, list: string[]): Element[] {
+      for (const selector of list) {
+        const elements = root.querySelectorAll(selector)
+        if (elements.length > 0) return Array.from(elements)
       }
+      return []
     }
+
     // Get main article content
-    const article = document.querySelector('.note-container')
-    if (!article) throw new Error('Article not found')
-
-    // Get title from h1 or first text block
-    const title =
-      article.querySelector('#detail-title')?.textContent?.trim() ||
-      article.querySelector('.title')?.textContent?.trim() ||
-      ''
-
-    // Get content from article text
-    const contentBlock = article.querySelector('.note-scroller')
-    if (!contentBlock) throw new Error('Content block not found')
-    const content = contentBlock.querySelector('.note-content .note-text span')?.textContent?.trim() || ''
-    // Get tags from article text
-    const tags = Array.from(contentBlock?.querySelectorAll('.note-content .note-text a')).map((tag) => {
+    const article = pick(document, 'container', sel.container)
+    if (!article) throw new Error(`Article not found (tried ${sel.container.join(', ')})`)
+
+    const title = pick(article, 'title', sel.title)?.textContent?.trim() || ''
+    const content = pick(article, 'content', sel.content)?.textContent?.trim() || ''
+    const tags = pickAll(article, sel.tags).map((tag) => {
       return tag.textContent?.trim().replace('#', '') || ''
     })
 
     // Get author info
-    const authorElement = article.querySelector('.author-container .info')
-    const authorAvatarURL = authorElement?.querySelector('.avatar-item')?.getAttribute('src') || ''
-    const author = authorElement?.querySelector('.username')?.textContent?.trim() || ''
+    const author = pick(article, 'author', sel.author)?.textContent?.trim() || ''
+    const authorUrl = (pick(article, 'authorLink', sel.authorLink) as HTMLAnchorElement | null)?.href || undefined
 
-    const interactContainer = document.querySelector('.interact-container')
-    const commentsNumber = interactContainer?.querySelector('.chat-wrapper .count')?.textContent?.trim() || ''
-    const likesNumber = interactContainer?.querySelector('.like-wrapper .count')?.textContent?.trim() || ''
+    const likesNumber = pick(document, 'likes', sel.likes)?.textContent?.trim() || ''
+    const collectsNumber = pick(document, 'collects', sel.collects)?.textContent?.trim() || ''
+    const commentsNumber = pick(document, 'comments', sel.comments)?.textContent?.trim() || ''
+    const publishTimeText = pick(article, 'publishTime', sel.publishTime)?.textContent?.trim() || ''
 
-    const imgs = Array.from(document.querySelectorAll('.media-container img')).map((img) => {
+    const imgs = pickAll(document, sel.images).map((img) => {
       return img.getAttribute('src') || ''
     })
 
-    const videos = Array.from(document.querySelectorAll('.media-container video')).map((video) => {
+    const videos = pickAll(document, sel.videos).map((video) => {
       return video.getAttribute('src') || ''
     })
 
@@ -74,13 +151,35 @@ export async function GetNoteDetail(page: Page, timeout: number = 30000): Promis
       content,
       tags,
       author,
+      authorUrl,
       imgs,
       videos,
       url: '',
-      likes: ChineseUnitStrToNumber(likesNumber),
-      comments: ChineseUnitStrToNumber(commentsNumber)
-    } as Note
+      likesNumber,
+      collectsNumber,
+      commentsNumber,
+      publishTimeText,
+      missingFields
+    }
   }
 
-  return await page.evaluate(getContent)
+  const { likesNumber, collectsNumber, commentsNumber, publishTimeText, ...content } = await page.evaluate(
+    getContent,
+    selectors
+  )
+  const note: NoteDetail = {
+    ...content,
+    type: content.videos.length > 0 ? 'video' : 'image',
+    authorId: content.authorUrl ? userIdFromUrl(content.authorUrl) : undefined,
+    likes: parseCount(likesNumber),
+    collects: parseCount(collectsNumber),
+    comments: parseCount(commentsNumber),
+    publishTime: parseDisplayTime(publishTimeText)
+  }
+  if (note.missingFields?.length) {
+    logger.warn(
+      `Note fields not found with selector profile ${getSelectors().version}: ${note.missingFields.join(', ')}`
+    )
+  }
+  return note
 }
@@ -0,0 +1,121 @@
+import { request } from 'playwright'
+import { BrowserProfile } from '../browser/browserProfile'
+import logger from '../utils/logger'
+
+/** A note as the site wants it opened: its id and a canonical URL that keeps the xsec parameters */
+export interface NoteReference {
+  noteId: string
+  url: string
+  xsecToken?: string
+  xsecSource?: string
+}
+
+/** Follows a short link and returns the URL it ends up at */
+export type ShortLinkResolver = (url: string) => Promise<string>
+
+const NOTE_ID = /^[0-9a-f]{24}$/i
+const NOTE_PATH = /\/(?:explore|discovery\/item)\/([0-9a-zA-Z]+)/
+const SHORT_LINK_HOSTS = ['xhslink.com', 'www.xhslink.com']
+const DEFAULT_USER_AGENT = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36'
+
+/**
+ * The first link in a piece of text, e.g. the xhslink in "…发布了一篇小红书笔记 http://xhslink.com/a/…，复制本条信息…"
+ */
+export function findLink(text: string): string | null {
+  return text.match(/https?:\/\/[^\s，。！？；、"'<>（）【】]+/i)?.[0] || null
+}
+
+/**
+ * Reference for a note URL or bare note id without any network access,
+ * null for anything else including short links
+ */
+export function parseNoteUrl(input: string, baseUrl: string): NoteReference | null {
+  const value = input.trim()
+  if (NOTE_ID.test(value)) {
+    return { noteId: value, url: new URL(`/explore/${value}`, baseUrl).toString() }
+  }
+
+  let parsed: URL
+  try {
+    parsed = new URL(value)
+  } catch (error) {
+    return null
+  }
+
+  const noteId = parsed.pathname.match(NOTE_PATH)?.[1]
+  if (!noteId) {
+    // Links that need a session land on the login page with the note in redirectPath
+    const redirectPath = parsed.searchParams.get('redirectPath')
+    return redirectPath ? parseNoteUrl(redirectPath, baseUrl) : null
+  }
+
+  const url = new URL(`/explore/${noteId}`, baseUrl)
+  const xsecToken = parsed.searchParams.get('xsec_token') || undefined
+  const xsecSource = parsed.searchParams.get('xsec_source') || undefined
+  if (xsecToken) url.searchParams.set('xsec_token', xsecToken)
+  if (xsecSource) url.searchParams.set('xsec_source', xsecSource)
+  return { noteId, url: url.toString(), xsecToken, xsecSource }
+}
+
+export interface RedirectOptions {
+  maxRedirects?: number
+  /** Per request, in milliseconds */
+  timeout?: number
+  /** The browser's proxy, so short links resolve from the same network as the pages they lead to */
+  proxy?: BrowserProfile['proxy']
+  userAgent?: string
+}
+
+/**
+ * Follow HTTP redirects one hop at a time and return the URL the last one points to
+ */
+export async function followRedirects(url: string, options: RedirectOptions = {}): Promise<string> {
+  const { maxRedirects = 5, timeout = 10000 } = options
+  const context = await request.newContext({
+    proxy: options.proxy,
+    userAgent: options.userAgent || DEFAULT_USER_AGENT,
+    timeout
+  })
+  try {
+    let current = url
+    for (let redirects = 0; ; redirects++) {
+      const response = await context.get(current, { maxRedirects: 0 })
+      const location = response.headers()['location']
+      const status = response.status()
+      await response.dispose()
+      if (status < 300 || status >= 400 || !location) return current
+      if (redirects >= maxRedirects) throw new Error(`Too many redirects resolving ${url}`)
+      current = new URL(location, current).toString()
+    }
+  } finally {
+    await context.dispose()
+  }
+}
+
+/**
+ * Turn anything a user may paste into a note reference: share text, xhslink short links,
+ * explore and discovery/item URLs, or a bare note id
+ */
+export async function resolveNoteReference(
+  input: string,
+  baseUrl: string,
+  resolveShortLink: ShortLinkResolver = followRedirects
+): Promise<NoteReference> {
+  const direct = parseNoteUrl(input, baseUrl)
+  if (direct) return direct
+
+  const link = findLink(input)
+  if (link) {
+    if (SHORT_LINK_HOSTS.includes(new URL(link).hostname.toLowerCase())) {
+      logger.info(`Resolving short link ${link}`)
+      const resolved = await resolveShortLink(link)
+      const reference = parseNoteUrl(resolved, baseUrl)
+      if (reference) return reference
+      throw new Error(`Short link ${link} does not lead to a note (ended at ${resolved})`)
+    }
+    const reference = parseNoteUrl(link, baseUrl)
+    if (reference) return reference
+  }
+
+  throw new Error(`No note link or note id found in: ${input}`)
+}
@@ -0,0 +1,158 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import logger from '../utils/logger'
+import { NoteDetail } from './noteDetail'
+import { Comment, Note } from './rednoteTools'
+
+/** Default location of the note store, one JSON record per line */
+export const STORE_PATH = path.join(os.homedir(), '.mcp', 'rednote', 'notes.jsonl')
+
+/** How long a stored note or comment list is served instead of fetching it again */
+export const DEFAULT_TTL = 60 * 60 * 1000
+
+export interface StoreOptions {
+  path?: string
+  /** Milliseconds, 0 always fetches again but still records what was fetched */
+  ttl?: number
+}
+
+export interface StoredCommentsOptions {
+  limit: number
+  includeReplies: boolean
+}
+
+type StoreRecord =
+  | { kind: 'note'; noteId: string; fetchedAt: number; note: NoteDetail }
+  | ({ kind: 'comments'; noteId: string; fetchedAt: number; comments: Comment[] } & StoredCommentsOptions)
+  | { kind: 'hit'; noteId: string; fetchedAt: number; keywords: string; hit: Note }
+
+export interface StoreStats {
+  path: string
+  notes: number
+  comments: number
+  searchHits: number
+  bytes: number
+  /** ISO 8601 fetch times of the oldest and newest record */
+  oldest?: string
+  newest?: string
+}
+
+/**
+ * Keeps fetched notes, comment lists and search hits on disk keyed by note id, so repeated
+ * requests within the TTL and requests after a restart do not have to go to the site.
+ * Records are appended to a JSONL file, the latest record for a key wins.
+ */
+export class NoteStore {
+  readonly path: string
+  private readonly ttl: number
+  private records: Map<string, StoreRecord> | null = null
+
+  constructor(options: StoreOptions = {}) {
+    this.path = options.path || STORE_PATH
+    this.ttl = options.ttl ?? DEFAULT_TTL
+  }
+
+  /**
+   * A stored note fetched within the TTL
+   */
+  getNote(noteId: string): NoteDetail | undefined {
+    const record = this.load().get(`note:${noteId}`)
+    return record?.kind === 'note' && this.isFresh(record) ? record.note : undefined
+  }
+
+  putNote(note: NoteDetail): void {
+    if (!note.noteId) return
+    this.append({ kind: 'note', noteId: note.noteId, fetchedAt: Date.now(), note })
+  }
+
+  /**
+   * Stored comments fetched within the TTL, if they cover the request: replies are only
+   * served when they were fetched too, and a shorter list only when it was already complete
+   */
+  getComments(noteId: string, options: StoredCommentsOptions): Comment[] | undefined {
+    const record = this.load().get(`comments:${noteId}`)
+    if (record?.kind !== 'comments' || !this.isFresh(record)) return undefined
+    if (options.includeReplies && !record.includeReplies) return undefined
+    const complete = record.comments.length < record.limit
+    if (record.limit < options.limit && !complete) return undefined
+    return record.comments.slice(0, options.limit)
+  }
+
+  putComments(noteId: string, comments: Comment[], options: StoredCommentsOptions): void {
+    this.append({ kind: 'comments', noteId, fetchedAt: Date.now(), comments, ...options })
+  }
+
+  /**
+   * Remember the notes a search returned, for looking up later what was found about a topic
+   */
+  putSearchHits(keywords: string, notes: Note[]): void {
+    const fetchedAt = Date.now()
+    for (const hit of notes) {
+      if (hit.id) this.append({ kind: 'hit', noteId: hit.id, fetchedAt, keywords, hit })
+    }
+  }
+
+  stats(): StoreStats {
+    const records = Array.from(this.load().values())
+    const times = records.map((record) => record.fetchedAt).sort((a, b) => a - b)
+    return {
+      path: this.path,
+      notes: records.filter((record) => record.kind === 'note').length,
+      comments: records.filter((record) => record.kind === 'comments').length,
+      searchHits: records.filter((record) => record.kind === 'hit').length,
+      bytes: fs.existsSync(this.path) ? fs.statSync(this.path).size : 0,
+      oldest: times.length ? new Date(times[0]).toISOString() : undefined,
+      newest: times.length ? new Date(times[times.length - 1]).toISOString() : undefined
+    }
+  }
+
+  /**
+   * Delete everything stored
+   */
+  clear(): void {
+    if (fs.existsSync(this.path)) {
+      fs.unlinkSync(this.path)
+    }
+    this.records = new Map()
+    logger.info(`Cleared note store at ${this.path}`)
+  }
+
+  private isFresh(record: StoreRecord): boolean {
+    return Date.now() - record.fetchedAt < this.ttl
+  }
+
+  private append(record: StoreRecord): void {
+    this.load().set(`${record.kind}:${record.noteId}`, record)
+    fs.mkdirSync(path.dirname(this.path), { recursive: true })
+    fs.appendFileSync(this.path, `${JSON.stringify(record)}\n`)
+  }
+
+  private load(): Map<string, StoreRecord> {
+    if (this.records) return this.records
+
+    this.records = new Map()
+    if (!fs.existsSync(this.path)) return this.records
+
+    const lines = fs.readFileSync(this.path, 'utf-8').split('\n').filter(Boolean)
+    for (const line of lines) {
+      try {
+        const record: StoreRecord = JSON.parse(line)
+        this.records.set(`${record.kind}:${record.noteId}`, record)
+      } catch (error) {
+        logger.warn(`Skipping unreadable line in ${this.path}`)
+      }
+    }
+    logger.info(`Loaded ${this.records.size} records from ${this.path}`)
+
+    // Superseded records pile up over time, rewrite the file once they dominate it
+    if (lines.length > 100 && lines.length > this.records.size * 2) {
+      const content = Array.from(this.records.values())
+        .map((record) => JSON.stringify(record))
+        .join('\n')
+      fs.writeFileSync(this.path, `${content}\n`)
+      logger.info(`Compacted ${this.path} from ${lines.length} to ${this.records.size} records`)
+    }
+    return this.records
+  }
+}
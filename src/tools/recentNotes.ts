@@ -0,0 +1,74 @@
+import { NoteDetail } from './noteDetail'
+import { Comment } from './rednoteTools'
+
+export interface RecentNote {
+  noteId: string
+  note?: NoteDetail
+  comments?: Comment[]
+  /** Milliseconds since the epoch of the last time anything about the note was fetched */
+  fetchedAt: number
+}
+
+/**
+ * Notes and comment lists fetched during this session, so clients can read them again as
+ * resources without another trip to the site. Only the most recently fetched notes are kept.
+ */
+export class RecentNotes {
+  private readonly maxNotes: number
+  // Map iteration follows insertion order, entries are re-inserted when touched so the oldest comes first
+  private readonly entries = new Map<string, RecentNote>()
+
+  constructor(maxNotes: number = 100) {
+    this.maxNotes = maxNotes
+  }
+
+  /**
+   * Remember a fetched note
+   * @returns Whether the list of available resources changed
+   */
+  addNote(noteId: string, note: NoteDetail): boolean {
+    return this.update(noteId, (entry) => {
+      const changed = !entry.note
+      entry.note = note
+      return changed
+    })
+  }
+
+  /**
+   * Remember a fetched comment list
+   * @returns Whether the list of available resources changed
+   */
+  addComments(noteId: string, comments: Comment[]): boolean {
+    return this.update(noteId, (entry) => {
+      const changed = !entry.comments
+      entry.comments = comments
+      return changed
+    })
+  }
+
+  get(noteId: string): RecentNote | undefined {
+    return this.entries.get(noteId)
+  }
+
+  /**
+   * All remembered notes, most recently fetched first
+   */
+  list(): RecentNote[] {
+    return Array.from(this.entries.values()).reverse()
+  }
+
+  private update(noteId: string, apply: (entry: RecentNote) => boolean): boolean {
+    const entry = this.entries.get(noteId) || { noteId, fetchedAt: 0 }
+    this.entries.delete(noteId)
+    let changed = apply(entry)
+    entry.fetchedAt = Date.now()
+    this.entries.set(noteId, entry)
+
+    while (this.entries.size > this.maxNotes) {
+      const oldest = this.entries.keys().next().value as string
+      this.entries.delete(oldest)
+      changed = true
+    }
+    return changed
+  }
+}
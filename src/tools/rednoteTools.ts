@@ -1,272 +1,920 @@
-import { AuthManager } from '../auth/authManager'
-import { Browser, Page } from 'playwright'
+import fs from 'fs'
+import path from 'path'
+import { AuthManager, AuthOptions } from '../auth/authManager'
+import { LoginStatus } from '../auth/loginStatus'
+import { ElementHandle, Page, Response } from 'playwright'
+import { SessionManager, SessionOptions } from '../browser/sessionManager'
 import logger from '../utils/logger'
-import { GetNoteDetail, NoteDetail } from './noteDetail'
+import { classifyNotePage, GetNoteDetail, NoteDetail, noteIdFromUrl } from './noteDetail'
+import { anyOf, getSelectors, queryAll, queryFirst } from './selectors'
+import { CookieExpiredError, NotLoggedInError, RedNoteError, SelectorMissingError, TimeoutError } from '../errors'
+import { ResponseCollector } from '../browser/responseCollector'
+import { Throttle, ThrottleOptions } from '../browser/throttle'
+import { detectRiskControl } from '../browser/riskControl'
+import {
+  decodeSearchCursor,
+  encodeSearchCursor,
+  mapSearchResponse,
+  SEARCH_API_PATH,
+  searchFilterClicks,
+  SearchFilters,
+  SearchMode,
+  SearchResponse
+} from './searchFeed'
+import { parseCount } from '../utils/count'
+import { parseDisplayTime } from '../utils/time'
+import { COMMENT_API_PATH, CommentResponse, CommentThread, SUB_COMMENT_API_PATH } from './comments'
+import { readInitialState } from './initialState'
+import { NoteStore } from './noteStore'
+import { followRedirects, NoteReference, resolveNoteReference } from './noteReference'
+import { createRequestFetcher, DEFAULT_MEDIA_DIR, downloadNoteMedia, MediaManifest, shrinkImage } from './media'
+import {
+  decodeUserNotesCursor,
+  encodeUserNotesCursor,
+  mapStateUserNotes,
+  mapUserPageData,
+  mapUserPostedResponse,
+  USER_POSTED_API_PATH,
+  userIdFromUrl,
+  UserNotesResult,
+  UserPostedResponse,
+  UserProfile,
+  userProfileUrl
+} from './userProfile'
 
 export interface Note {
+  id?: string
+  type?: 'image' | 'video'
   title: string
   content: string
   tags: string[]
   url: string
+  cover?: string
   author: string
+  authorId?: string
   likes?: number
   collects?: number
   comments?: number
+  shares?: number
+  /** ISO 8601, from search results this is only as precise as the site's label, e.g. "3天前" */
+  publishTime?: string
+  /** Token the site requires when opening the note from outside the search page */
+  xsecToken?: string
+  /** Fields none of the configured selectors matched, their values are empty */
+  missingFields?: string[]
 }
 
 export interface Comment {
+  id: string
   author: string
+  authorId?: string
   content: string
   likes: number
+  /** ISO 8601 */
   time: string
+  ipLocation?: string
+  /** On replies, the top-level comment they belong to */
+  parentId?: string
+  /** On replies that answer another reply, that reply */
+  replyTo?: { id: string; author: string; authorId?: string }
+  /** On top-level comments, the number of replies the site reports */
+  replyCount?: number
+  /** On top-level comments, when replies were requested */
+  replies?: Comment[]
+}
+
+export interface CommentOptions {
+  /** Maximum number of top-level comments, replies do not count towards it */
+  limit?: number
+  /** Also load every reply, expanding "展开更多回复" where the site holds some back */
+  includeReplies?: boolean
+  /** Fetch from the site even when the store has a fresh copy */
+  forceRefresh?: boolean
+}
+
+export interface SearchOptions {
+  /**
+   * 'api' reads results from the search page's own API responses (fast),
+   * 'click' opens every result and scrapes it (slow, fills in content)
+   */
+  mode?: SearchMode
+  /** In api mode, also open every note to fill in content, tags and exact details */
+  fetchDetails?: boolean
+  /** Sort order, note type and publish time range picked in the search page's filter panel */
+  filters?: SearchFilters
+  /** Cursor from a previous SearchResult to continue where it stopped, only valid with the same filters */
+  cursor?: string
+}
+
+export interface SearchResult {
+  notes: Note[]
+  /** Pass back as SearchOptions.cursor to get the next notes, absent once hasMore is false */
+  cursor?: string
+  /** False when the site has no more results for these keywords */
+  hasMore: boolean
+}
+
+export interface MediaOptions {
+  /** Also return the images as base64 data, each shrunk to fit in maxImageBytes */
+  inlineImages?: boolean
+  /** Size limit for each inline image in bytes, defaults to 1 MB */
+  maxImageBytes?: number
+}
+
+export interface MediaDownload {
+  manifest: MediaManifest
+  manifestPath: string
+  /** Only with MediaOptions.inlineImages, images that could not be decoded or shrunk enough are left out */
+  images: { data: string; mimeType: string }[]
+}
+
+export interface RedNoteToolsOptions {
+  /** Cookie path, headless mode and the site's base URL */
+  auth?: AuthOptions
+  session?: SessionOptions
+  /** Directory downloaded media is saved to, one subdirectory per note */
+  mediaDir?: string
+  /** Serves recently fetched notes and comments and records everything fetched, nothing is cached without it */
+  store?: NoteStore
+  /** Pacing of page loads, shared by every call on this instance */
+  throttle?: ThrottleOptions
+  /** How long to wait for a page element or an API response, in milliseconds */
+  pageTimeout?: number
+  /** How long to wait while following a short link, in milliseconds */
+  shortLinkTimeout?: number
+  /** Multiplies the random pauses between clicks and scrolls, 0 turns them off */
+  delayScale?: number
 }
 
 export class RedNoteTools {
   private authManager: AuthManager
-  private browser: Browser | null = null
-  private page: Page | null = null
-
-  constructor() {
+  private session: SessionManager
+  private readonly baseUrl: string
+  private readonly mediaDir: string
+  private readonly store?: NoteStore
+  private readonly throttle: Throttle
+  private readonly pageTimeout: number
+  private readonly shortLinkTimeout: number
+  private readonly delayScale: number
+
+  constructor(options: RedNoteToolsOptions = {}) {
     logger.info('Initializing RedNoteTools')
-    this.authManager = new AuthManager()
+    this.authManager = new AuthManager(options.auth)
+    this.session = new SessionManager(this.authManager, options.session)
+    this.baseUrl = this.authManager.baseUrl
+    this.mediaDir = options.mediaDir || DEFAULT_MEDIA_DIR
+    this.store = options.store
+    this.throttle = new Throttle(options.throttle)
+    this.pageTimeout = options.pageTimeout ?? 30000
+    this.shortLinkTimeout = options.shortLinkTimeout ?? 10000
+    this.delayScale = options.delayScale ?? 1
   }
 
   async initialize(): Promise<void> {
     logger.info('Initializing browser and page')
-    if (!this.browser) {
-      this.browser = await this.authManager.getBrowser()
-      this.page = await this.browser.newPage()
-
-      // Load cookies if available
-      const cookies = await this.authManager.getCookies()
-      if (cookies.length > 0) {
-        logger.info(`Loading ${cookies.length} cookies`)
-        await this.page.context().addCookies(cookies)
-      }
+    await this.withPage(async () => undefined)
+  }
 
-      // Check login status
-      logger.info('Checking login status')
-      await this.page.goto('https://www.xiaohongshu.com')
-      const isLoggedIn = await this.page.evaluate(() => {
-        const sidebarUser = document.querySelector('.user.side-bar-component .channel')
-        return sidebarUser?.textContent?.trim() === '我'
-      })
+  async cleanup(): Promise<void> {
+    logger.info('Cleaning up browser resources')
+    await this.session.shutdown()
+  }
 
-      // If not logged in, perform login
+  /**
+   * Milliseconds since the epoch until which this account is paused after a captcha or rate limit, 0 when it is not
+   */
+  get pausedUntil(): number {
+    return this.throttle.pausedUntilTime
+  }
+
+  /**
+   * Close the browser, which drops the cookies and localStorage it holds, and delete the saved login
+   */
+  async logout(): Promise<void> {
+    await this.session.shutdown()
+    await this.authManager.logout()
+  }
+
+  /**
+   * Pick up freshly saved cookies, e.g. after a login, without interrupting running calls
+   */
+  async reloadCookies(): Promise<void> {
+    // A fresh login is how users clear a verification, so stop waiting out the cooldown
+    this.throttle.resume()
+    await this.session.reloadCookies()
+  }
+
+  /**
+   * Lease a logged-in page from the shared session for the duration of a task
+   */
+  private async withPage<T>(task: (page: Page) => Promise<T>): Promise<T> {
+    const page = await this.session.acquirePage()
+    try {
+      const isLoggedIn = await this.session.ensureLoggedIn(page, (p) => this.checkLoginStatus(p))
       if (!isLoggedIn) {
         logger.error('Not logged in, please login first')
-        throw new Error('Not logged in')
+        const cookies = await this.authManager.getCookies()
+        throw cookies.length > 0 ? new CookieExpiredError() : new NotLoggedInError()
       }
-      logger.info('Login status verified')
+      const result = await task(page)
+      this.throttle.recordSuccess()
+      return result
+    } catch (error) {
+      // These already say what is wrong, no need to look at the page
+      if (error instanceof RedNoteError && !(error instanceof TimeoutError || error instanceof SelectorMissingError)) {
+        throw error
+      }
+      // What looks like a missing element or a timeout is often a captcha or rate limit page
+      const blocked = await detectRiskControl(page)
+      if (blocked) {
+        this.throttle.pause(blocked)
+        throw blocked
+      }
+      this.throttle.recordFailure()
+      throw error
+    } finally {
+      await this.session.releasePage(page)
     }
   }
 
-  async cleanup(): Promise<void> {
-    logger.info('Cleaning up browser resources')
-    if (this.browser) {
-      await this.browser.close()
-      this.browser = null
-      this.page = null
+  /**
+   * Load a URL once the throttle allows it, and stop everything when the site answers with an anti-bot page
+   */
+  private async navigate(page: Page, url: string): Promise<Response | null> {
+    await this.throttle.acquire()
+    const response = await page.goto(url)
+    const blocked = await detectRiskControl(page)
+    if (blocked) {
+      this.throttle.pause(blocked)
+      throw blocked
     }
+    return response
   }
 
-  extractRedBookUrl(shareText: string): string {
-    // 匹配 http://xhslink.com/ 开头的链接
-    const xhslinkRegex = /(https?:\/\/xhslink\.com\/[a-zA-Z0-9\/]+)/i
-    const xhslinkMatch = shareText.match(xhslinkRegex)
-
-    if (xhslinkMatch && xhslinkMatch[1]) {
-      return xhslinkMatch[1]
+  private async checkLoginStatus(page: Page): Promise<boolean> {
+    logger.info('Checking login status')
+    await this.navigate(page, this.baseUrl)
+    const isLoggedIn = await this.authManager.isLoggedIn(page)
+    if (isLoggedIn) {
+      logger.info('Login status verified')
+      await this.authManager.recordLoggedInPage(page)
     }
+    return isLoggedIn
+  }
 
-    // 匹配 https://www.xiaohongshu.com/ 开头的链接
-    const xiaohongshuRegex = /(https?:\/\/(?:www\.)?xiaohongshu\.com\/[^，\s]+)/i
-    const xiaohongshuMatch = shareText.match(xiaohongshuRegex)
+  /**
+   * Cookie expiry, account and last verification of the login. With verify, the home page is
+   * loaded once to confirm the site still accepts the cookies.
+   */
+  async checkLogin(options: { verify?: boolean } = {}): Promise<LoginStatus> {
+    const status = await this.authManager.getLoginStatus()
+    if (!options.verify || !status.hasCookies) {
+      return status
+    }
 
-    if (xiaohongshuMatch && xiaohongshuMatch[1]) {
-      return xiaohongshuMatch[1]
+    const page = await this.session.acquirePage()
+    try {
+      // Always ask the site, a cached check would not say anything new
+      this.session.invalidateLogin()
+      const loggedIn = await this.session.ensureLoggedIn(page, (p) => this.checkLoginStatus(p))
+      return { ...(await this.authManager.getLoginStatus()), loggedIn }
+    } finally {
+      await this.session.releasePage(page)
     }
+  }
 
-    return shareText
+  /**
+   * Note id and canonical URL for whatever the user passed: a note URL, share text, an xhslink short link or an id
+   */
+  resolveNote(input: string): Promise<NoteReference> {
+    return resolveNoteReference(input, this.baseUrl, (url) =>
+      followRedirects(url, { ...this.authManager.getRequestOptions(), timeout: this.shortLinkTimeout })
+    )
   }
 
-  async searchNotes(keywords: string, limit: number = 10): Promise<Note[]> {
-    logger.info(`Searching notes with keywords: ${keywords}, limit: ${limit}`)
-    await this.initialize()
-    if (!this.page) throw new Error('Page not initialized')
+  async searchNotes(keywords: string, limit: number = 10, options: SearchOptions = {}): Promise<SearchResult> {
+    const { mode = 'api', fetchDetails = false, filters = {} } = options
+    const offset = options.cursor ? decodeSearchCursor(options.cursor, keywords, filters) : 0
+    logger.info(`Searching notes with keywords: ${keywords}, limit: ${limit}, offset: ${offset}, mode: ${mode}`)
+    return this.withPage(async (page) => {
+      const started = Date.now()
+      const { notes, hasMore } =
+        mode === 'click'
+          ? await this.searchByClicking(page, keywords, limit, offset, filters)
+          : await this.searchByApi(page, keywords, limit, offset, filters, fetchDetails)
+      logger.info(`Search returned ${notes.length} notes in ${Date.now() - started}ms, has more: ${hasMore}`)
+      this.store?.putSearchHits(keywords, notes)
+      return {
+        notes,
+        hasMore,
+        cursor: hasMore ? encodeSearchCursor(keywords, offset + notes.length, filters) : undefined
+      }
+    })
+  }
 
+  /**
+   * Build results from the search API responses the page makes while loading and scrolling
+   */
+  private async searchByApi(
+    page: Page,
+    keywords: string,
+    limit: number,
+    offset: number,
+    filters: SearchFilters,
+    fetchDetails: boolean
+  ): Promise<{ notes: Note[]; hasMore: boolean }> {
+    const collector = new ResponseCollector<SearchResponse>(page, SEARCH_API_PATH)
     try {
-      // Navigate to search page
       logger.info('Navigating to search page')
-      await this.page.goto(`https://www.xiaohongshu.com/search_result?keyword=${encodeURIComponent(keywords)}`)
+      await this.navigate(page, this.searchUrl(keywords))
 
-      // Wait for search results to load
-      logger.info('Waiting for search results')
-      await this.page.waitForSelector('.feeds-container', {
-        timeout: 30000
-      })
+      logger.info('Waiting for search API response')
+      let response = await collector.next(this.pageTimeout)
+      if (!response) {
+        throw new TimeoutError(`Search API did not respond within ${this.pageTimeout}ms`)
+      }
+
+      // Every filter change makes the page search again, only the response to the last one counts
+      for (const filter of searchFilterClicks(filters)) {
+        collector.clear()
+        await this.applySearchFilter(page, filter)
+        response = await collector.next(this.pageTimeout)
+        if (!response) {
+          throw new TimeoutError(`Search API did not respond to filter ${filter.label} within ${this.pageTimeout}ms`)
+        }
+      }
 
-      // Get all note items
-      let noteItems = await this.page.$$('.feeds-container .note-item')
-      logger.info(`Found ${noteItems.length} note items`)
       const notes: Note[] = []
+      const seen = new Set<string>()
+      let hasMore = true
+      while (response) {
+        if (response.success === false) {
+          throw new Error(`Search API returned an error: ${response.msg || response.code}`)
+        }
 
-      // Process each note
-      for (let i = 0; i < Math.min(noteItems.length, limit); i++) {
-        logger.info(`Processing note ${i + 1}/${Math.min(noteItems.length, limit)}`)
-        try {
-          // Click on the note cover to open detail
-          await noteItems[i].$eval('a.cover.mask.ld', (el: HTMLElement) => el.click())
+        let leftOver = false
+        for (const note of mapSearchResponse(response, this.baseUrl)) {
+          if (!note.id || seen.has(note.id)) continue
+          seen.add(note.id)
+          if (seen.size <= offset) continue
+          if (notes.length < limit) {
+            notes.push(note)
+          } else {
+            leftOver = true
+          }
+        }
+        logger.info(`Collected ${notes.length}/${limit} notes from ${seen.size} unique results`)
 
-          // Wait for the note page to load
-          logger.info('Waiting for note page to load')
-          await this.page.waitForSelector('#noteContainer', {
-            timeout: 30000
-          })
+        hasMore = leftOver || response.data?.has_more !== false
+        if (notes.length >= limit || !hasMore) break
 
-          await this.randomDelay(0.5, 1.5)
+        response = await this.scrollForMore(page, collector)
+        if (!response) {
+          logger.info('Search feed stopped loading new results')
+          hasMore = false
+        }
+      }
 
-          // Extract note content
-          const note = await this.page.evaluate(() => {
-            const article = document.querySelector('#noteContainer')
-            if (!article) return null
-
-            // Get title
-            const titleElement = article.querySelector('#detail-title')
-            const title = titleElement?.textContent?.trim() || ''
-
-            // Get content
-            const contentElement = article.querySelector('#detail-desc .note-text')
-            const content = contentElement?.textContent?.trim() || ''
-
-            // Get author info
-            const authorElement = article.querySelector('.author-wrapper .username')
-            const author = authorElement?.textContent?.trim() || ''
-
-            // Get interaction counts from engage-bar
-            const engageBar = document.querySelector('.engage-bar-style')
-            const likesElement = engageBar?.querySelector('.like-wrapper .count')
-            const likes = parseInt(likesElement?.textContent?.replace(/[^\d]/g, '') || '0')
-
-            const collectElement = engageBar?.querySelector('.collect-wrapper .count')
-            const collects = parseInt(collectElement?.textContent?.replace(/[^\d]/g, '') || '0')
-
-            const commentsElement = engageBar?.querySelector('.chat-wrapper .count')
-            const comments = parseInt(commentsElement?.textContent?.replace(/[^\d]/g, '') || '0')
-
-            return {
-              title,
-              content,
-              url: window.location.href,
-              author,
-              likes,
-              collects,
-              comments
+      if (fetchDetails) {
+        for (let i = 0; i < notes.length; i++) {
+          logger.info(`Fetching details ${i + 1}/${notes.length}`)
+          try {
+            const detail = await this.readNote(page, notes[i].url)
+            notes[i] = {
+              ...notes[i],
+              content: detail.content,
+              tags: detail.tags,
+              likes: detail.likes ?? notes[i].likes,
+              collects: detail.collects ?? notes[i].collects,
+              comments: detail.comments ?? notes[i].comments,
+              // Exact, unlike the "3天前" label the search result shows
+              publishTime: detail.publishTime ?? notes[i].publishTime
             }
-          })
+          } catch (error) {
+            logger.error(`Error fetching details for note ${notes[i].id}:`, error)
+          }
+          await this.randomDelay(0.5, 1.5)
+        }
+      }
+      return { notes, hasMore }
+    } finally {
+      collector.dispose()
+    }
+  }
+
+  /**
+   * Open every result in the note overlay and scrape it, scrolling down for more results
+   */
+  private async searchByClicking(
+    page: Page,
+    keywords: string,
+    limit: number,
+    offset: number,
+    filters: SearchFilters
+  ): Promise<{ notes: Note[]; hasMore: boolean }> {
+    const selectors = getSelectors().search
+    // Navigate to search page
+    logger.info('Navigating to search page')
+    await this.navigate(page, this.searchUrl(keywords))
+
+    // Wait for search results to load
+    logger.info('Waiting for search results')
+    await page.waitForSelector(anyOf(selectors.feeds), {
+      timeout: this.pageTimeout
+    })
+
+    for (const filter of searchFilterClicks(filters)) {
+      await this.applySearchFilter(page, filter)
+      await this.randomDelay(1, 2)
+      await page.waitForSelector(anyOf(selectors.noteItem), { timeout: this.pageTimeout })
+    }
 
-          if (note) {
-            logger.info(`Extracted note: ${note.title}`)
-            notes.push(note as Note)
+    const notes: Note[] = []
+    const seen = new Set<string>()
+    let hasMore = true
+    let idleScrolls = 0
+
+    while (notes.length < limit) {
+      // The feed is re-rendered while scrolling, so look up the items again each round
+      const noteItems = await queryAll(page, selectors.noteItem)
+      let foundNew = false
+
+      for (const noteItem of noteItems) {
+        if (notes.length >= limit) break
+
+        const cover = await queryFirst(noteItem, selectors.noteCover)
+        const noteId = noteIdFromUrl((await cover?.getAttribute('href')) || '')
+        if (!noteId || seen.has(noteId)) continue
+        seen.add(noteId)
+        foundNew = true
+        if (seen.size <= offset) continue
+
+        logger.info(`Processing note ${notes.length + 1}/${limit}`)
+        const note = await this.scrapeSearchResult(page, cover!)
+        if (note) {
+          notes.push(note)
+        }
+      }
+
+      if (notes.length >= limit) break
+      const feedEnd = await queryFirst(page, selectors.feedEnd)
+      if (feedEnd && (await feedEnd.isVisible())) {
+        logger.info('Reached the end of the search feed')
+        hasMore = false
+        break
+      }
+
+      idleScrolls = foundNew ? 0 : idleScrolls + 1
+      if (idleScrolls >= 3) {
+        logger.info('Search feed stopped loading new results')
+        hasMore = false
+        break
+      }
+      await page.evaluate(() => window.scrollTo(0, document.body.scrollHeight))
+      await this.randomDelay(1, 2)
+    }
+
+    logger.info(`Successfully processed ${notes.length} notes`)
+    return { notes, hasMore }
+  }
+
+  /**
+   * Pick one option in the search page's filter panel, which opens on hover
+   */
+  private async applySearchFilter(page: Page, filter: { group: string; label: string }): Promise<void> {
+    const selectors = getSelectors().search
+    logger.info(`Applying search filter ${filter.group}: ${filter.label}`)
+    const button = await queryFirst(page, selectors.filterButton)
+    if (!button) {
+      throw new SelectorMissingError('search.filterButton', selectors.filterButton)
+    }
+    await button.hover()
+    await page.waitForSelector(anyOf(selectors.filterPanel), { state: 'visible', timeout: 10000 })
+
+    const clicked = await page.evaluate(
+      ({ sel, group, label }) => {
+        const groups = sel.filterGroup.flatMap((selector) => Array.from(document.querySelectorAll(selector)))
+        const match = groups.find((element) => (element.textContent || '').includes(group))
+        if (!match) return false
+        const options = sel.filterOption.flatMap((selector) => Array.from(match.querySelectorAll(selector)))
+        const option = options.find((element) => (element.textContent || '').trim() === label)
+        if (!option) return false
+        ;(option as HTMLElement).click()
+        return true
+      },
+      { sel: selectors, group: filter.group, label: filter.label }
+    )
+    if (!clicked) {
+      throw new Error(`Search filter option ${filter.group}: ${filter.label} not found`)
+    }
+    // Move away so the panel closes again
+    await page.mouse.move(0, 0)
+  }
+
+  /**
+   * Open one search result in the note overlay, scrape it and close the overlay again
+   */
+  private async scrapeSearchResult(page: Page, cover: ElementHandle): Promise<Note | null> {
+    const selectors = getSelectors().search
+    try {
+      // Click on the note cover to open detail
+      await cover.evaluate((el: HTMLElement) => el.click())
+
+      // Wait for the note page to load
+      logger.info('Waiting for note page to load')
+      await page.waitForSelector(anyOf(selectors.noteDialog), {
+        timeout: this.pageTimeout
+      })
+
+      await this.randomDelay(0.5, 1.5)
+
+      // Extract note content
+      const note = await page.evaluate((sel) => {
+        const missingFields: string[] = []
+        // Try each fallback in order and remember fields none of them matched
+        function pick(root: ParentNode, field: string, list: string[]): Element | null {
+          for (const selector of list) {
+            const element = root.querySelector(selector)
+            if (element) return element
           }
+          missingFields.push(field)
+          return null
+        }
+        function count(field: string, list: string[]): string {
+          return pick(document, field, list)?.textContent?.trim() || ''
+        }
+
+        const article = pick(document, 'noteDialog', sel.noteDialog)
+        if (!article) return null
+
+        const title = pick(article, 'title', sel.title)?.textContent?.trim() || ''
+        const content = pick(article, 'content', sel.content)?.textContent?.trim() || ''
+        const author = pick(article, 'author', sel.author)?.textContent?.trim() || ''
+        const publishTime = pick(article, 'publishTime', sel.publishTime)?.textContent?.trim() || ''
+
+        return {
+          title,
+          content,
+          url: window.location.href,
+          author,
+          publishTime,
+          likes: count('likes', sel.likes),
+          collects: count('collects', sel.collects),
+          comments: count('comments', sel.comments),
+          missingFields
+        }
+      }, selectors)
+
+      // Add random delay before closing
+      await this.randomDelay(0.5, 1)
 
-          // Add random delay before closing
-          await this.randomDelay(0.5, 1)
+      // Close note by clicking the close button
+      await this.closeNoteDialog(page)
 
-          // Close note by clicking the close button
-          const closeButton = await this.page.$('.close-circle')
-          if (closeButton) {
-            logger.info('Closing note dialog')
-            await closeButton.click()
+      if (!note) return null
+      logger.info(`Extracted note: ${note.title}`)
+      if (note.missingFields.length > 0) {
+        logger.warn(`Search result fields not found: ${note.missingFields.join(', ')}`)
+      }
+      return {
+        ...note,
+        id: noteIdFromUrl(note.url),
+        tags: [],
+        likes: parseCount(note.likes) ?? 0,
+        collects: parseCount(note.collects) ?? 0,
+        comments: parseCount(note.comments) ?? 0,
+        publishTime: parseDisplayTime(note.publishTime)
+      }
+    } catch (error) {
+      logger.error('Error processing search result:', error)
+      logger.info('Attempting to close note dialog after error')
+      await this.closeNoteDialog(page)
+      return null
+    } finally {
+      // Add random delay before next note
+      await this.randomDelay(0.5, 1.5)
+    }
+  }
 
-            // Wait for note dialog to disappear
-            await this.page.waitForSelector('#noteContainer', {
-              state: 'detached',
-              timeout: 30000
-            })
+  async getNoteContent(input: string, options: { forceRefresh?: boolean } = {}): Promise<NoteDetail> {
+    logger.info(`Getting note content for: ${input}`)
+    const { noteId, url } = await this.resolveNote(input)
+    const stored = !options.forceRefresh ? this.store?.getNote(noteId) : undefined
+    if (stored) {
+      logger.info(`Serving note ${noteId} from the store`)
+      return stored
+    }
+    return this.withPage(async (page) => {
+      try {
+        const note = await this.readNote(page, url)
+        logger.info(`Successfully extracted note: ${note.title}`)
+        this.store?.putNote(note)
+        return note
+      } catch (error) {
+        logger.error('Error getting note content:', error)
+        throw error
+      }
+    })
+  }
+
+  async getNoteComments(input: string, options: CommentOptions = {}): Promise<Comment[]> {
+    const { limit = 20, includeReplies = false } = options
+    logger.info(`Getting comments for: ${input}, limit: ${limit}, include replies: ${includeReplies}`)
+    const { noteId, url } = await this.resolveNote(input)
+    const stored = !options.forceRefresh ? this.store?.getComments(noteId, { limit, includeReplies }) : undefined
+    if (stored) {
+      logger.info(`Serving comments of note ${noteId} from the store`)
+      return stored
+    }
+    const selectors = getSelectors().comments
+    return this.withPage(async (page) => {
+      const collector = new ResponseCollector<CommentResponse>(page, COMMENT_API_PATH)
+      const replyCollector = new ResponseCollector<CommentResponse>(page, SUB_COMMENT_API_PATH)
+      try {
+        await this.openNote(page, url)
+
+        logger.info('Waiting for comment API response')
+        let response = await collector.next(this.pageTimeout)
+        if (!response) {
+          throw new TimeoutError(`Comment API did not respond within ${this.pageTimeout}ms`)
+        }
+
+        const thread = new CommentThread(includeReplies)
+        while (response) {
+          if (response.success === false) {
+            throw new Error(`Comment API returned an error: ${response.msg || response.code}`)
           }
-        } catch (error) {
-          logger.error(`Error processing note ${i + 1}:`, error)
-          const closeButton = await this.page.$('.close-circle')
-          if (closeButton) {
-            logger.info('Attempting to close note dialog after error')
-            await closeButton.click()
-
-            // Wait for note dialog to disappear
-            await this.page.waitForSelector('#noteContainer', {
-              state: 'detached',
-              timeout: 30000
-            })
+          thread.addPage(response)
+          logger.info(`Collected ${thread.comments.length}/${limit} comments`)
+          if (thread.comments.length >= limit || !response.data?.has_more) break
+
+          // Comments load when the note's side panel is scrolled, not the window
+          response = await this.scrollForMore(page, collector, 3, selectors.container)
+        }
+
+        const comments = thread.comments.slice(0, limit)
+        if (includeReplies) {
+          for (const comment of comments) {
+            await this.expandReplies(page, thread, comment.id, replyCollector)
           }
-        } finally {
-          // Add random delay before next note
-          await this.randomDelay(0.5, 1.5)
         }
+
+        logger.info(`Successfully extracted ${comments.length} comments`)
+        this.store?.putComments(noteId, comments, { limit, includeReplies })
+        return comments
+      } catch (error) {
+        logger.error('Error getting note comments:', error)
+        throw error
+      } finally {
+        collector.dispose()
+        replyCollector.dispose()
       }
+    })
+  }
 
-      logger.info(`Successfully processed ${notes.length} notes`)
-      return notes
-    } finally {
-      await this.cleanup()
+  /**
+   * Click "展开更多回复" under a top-level comment until all of its replies are loaded
+   */
+  private async expandReplies(
+    page: Page,
+    thread: CommentThread,
+    commentId: string,
+    collector: ResponseCollector<CommentResponse>
+  ): Promise<void> {
+    const selectors = getSelectors().comments
+    while (thread.hasMoreReplies(commentId)) {
+      const clicked = await page.evaluate(
+        ({ sel, id }) => {
+          // Every rendered comment carries its id in the element id
+          const item = document.getElementById(`comment-${id}`)
+          const parent = item && sel.parentComment.map((selector) => item.closest(selector)).find(Boolean)
+          const button = parent && sel.showMore.map((selector) => parent.querySelector(selector)).find(Boolean)
+          if (!button) return false
+          button.scrollIntoView()
+          ;(button as HTMLElement).click()
+          return true
+        },
+        { sel: selectors, id: commentId }
+      )
+      if (!clicked) {
+        logger.warn(`No button to expand the replies to comment ${commentId}`)
+        thread.skipReplies(commentId)
+        break
+      }
+
+      const response = await collector.next(5000)
+      if (!response) {
+        logger.warn(`Replies to comment ${commentId} did not load`)
+        thread.skipReplies(commentId)
+        break
+      }
+      thread.addReplyPage(commentId, response)
+      await this.randomDelay(0.3, 0.8)
     }
   }
 
-  async getNoteContent(url: string): Promise<NoteDetail> {
-    logger.info(`Getting note content for URL: ${url}`)
-    await this.initialize()
-    if (!this.page) throw new Error('Page not initialized')
+  /**
+   * Save a note's images and videos to the media directory through the logged-in browser context
+   */
+  async downloadNoteMedia(input: string, options: MediaOptions = {}): Promise<MediaDownload> {
+    const { inlineImages = false, maxImageBytes = 1024 * 1024 } = options
+    logger.info(`Downloading media of note: ${input}`)
+    const { url } = await this.resolveNote(input)
+    return this.withPage(async (page) => {
+      const note = await this.readNote(page, url)
+      const fetcher = createRequestFetcher(page.context().request, this.baseUrl)
+      const { manifest, manifestPath } = await downloadNoteMedia(note, this.mediaDir, fetcher)
+
+      const images: MediaDownload['images'] = []
+      if (inlineImages) {
+        // A blank page has no content security policy that could block the data: URLs
+        await page.goto('about:blank')
+        for (const file of manifest.files.filter((item) => item.type === 'image')) {
+          const data = fs.readFileSync(path.join(path.dirname(manifestPath), file.file))
+          let image: MediaDownload['images'][number] | null
+          try {
+            image = await shrinkImage(page, data, file.contentType, maxImageBytes)
+          } catch (error) {
+            // The files are already saved, one image the browser cannot decode must not lose the manifest
+            logger.warn(`Image ${file.file} could not be decoded, leaving it out:`, error)
+            continue
+          }
+          if (image) {
+            images.push(image)
+          } else {
+            logger.warn(`Image ${file.file} does not fit in ${maxImageBytes} bytes, leaving it out`)
+          }
+        }
+      }
+      return { manifest, manifestPath, images }
+    })
+  }
 
-    try {
-      const actualURL = this.extractRedBookUrl(url)
-      await this.page.goto(url)
-      let note = await GetNoteDetail(this.page)
-      note.url = url
-      logger.info(`Successfully extracted note: ${note.title}`)
-      return note
-    } catch (error) {
-      logger.error('Error getting note content:', error)
-      throw error
-    } finally {
-      await this.cleanup()
+  /**
+   * Profile of a user as shown on their profile page
+   * @param user Profile URL or user id
+   */
+  async getUserProfile(user: string): Promise<UserProfile> {
+    const userId = userIdFromUrl(user)
+    if (!userId) {
+      throw new Error(`Not a user profile URL or user id: ${user}`)
     }
+    logger.info(`Getting profile of user ${userId}`)
+    return this.withPage(async (page) => {
+      await this.navigate(page, userProfileUrl(userId, this.baseUrl))
+      const profile = mapUserPageData(await readInitialState(page), userId, this.baseUrl)
+      if (!profile) {
+        throw new Error(`Profile of user ${userId} not found`)
+      }
+      logger.info(`Read profile of ${profile.nickname}`)
+      return profile
+    })
   }
 
-  async getNoteComments(url: string): Promise<Comment[]> {
-    logger.info(`Getting comments for URL: ${url}`)
-    await this.initialize()
-    if (!this.page) throw new Error('Page not initialized')
+  /**
+   * Notes posted by a user, newest first, scrolling their profile page until limit is reached
+   * @param user Profile URL or user id
+   */
+  async listUserNotes(user: string, limit: number = 20, options: { cursor?: string } = {}): Promise<UserNotesResult> {
+    const userId = userIdFromUrl(user)
+    if (!userId) {
+      throw new Error(`Not a user profile URL or user id: ${user}`)
+    }
+    const offset = options.cursor ? decodeUserNotesCursor(options.cursor, userId) : 0
+    logger.info(`Listing notes of user ${userId}, limit: ${limit}, offset: ${offset}`)
 
-    try {
-      await this.page.goto(url)
+    const toBatch = (response: UserPostedResponse) => {
+      if (response.success === false) {
+        throw new Error(`User notes API returned an error: ${response.msg || response.code}`)
+      }
+      return { notes: mapUserPostedResponse(response, this.baseUrl), hasMore: response.data?.has_more !== false }
+    }
 
-      // Wait for comments to load
-      logger.info('Waiting for comments to load')
-      await this.page.waitForSelector('[role="dialog"] [role="list"]')
+    return this.withPage(async (page) => {
+      const collector = new ResponseCollector<UserPostedResponse>(page, USER_POSTED_API_PATH)
+      try {
+        await this.navigate(page, userProfileUrl(userId, this.baseUrl))
+
+        // The first notes are embedded in the page, later ones come from the API while scrolling
+        let batch = mapStateUserNotes(await readInitialState(page), this.baseUrl)
+        if (!batch) {
+          const response = await collector.next(this.pageTimeout)
+          if (!response) {
+            throw new TimeoutError(`User notes API did not respond within ${this.pageTimeout}ms`)
+          }
+          batch = toBatch(response)
+        }
 
-      // Extract comments
-      const comments = await this.page.evaluate(() => {
-        const items = document.querySelectorAll('[role="dialog"] [role="list"] [role="listitem"]')
-        const results: Comment[] = []
+        const notes: Note[] = []
+        const seen = new Set<string>()
+        let hasMore = true
+        while (batch) {
+          let leftOver = false
+          for (const note of batch.notes) {
+            if (!note.id || seen.has(note.id)) continue
+            seen.add(note.id)
+            if (seen.size <= offset) continue
+            if (notes.length < limit) {
+              notes.push(note)
+            } else {
+              leftOver = true
+            }
+          }
+          logger.info(`Collected ${notes.length}/${limit} notes from ${seen.size} unique results`)
 
-        items.forEach((item) => {
-          const author = item.querySelector('[data-testid="user-name"]')?.textContent?.trim() || ''
-          const content = item.querySelector('[data-testid="comment-content"]')?.textContent?.trim() || ''
-          const likes = parseInt(item.querySelector('[data-testid="likes-count"]')?.textContent || '0')
-          const time = item.querySelector('time')?.textContent?.trim() || ''
+          hasMore = leftOver || batch.hasMore
+          if (notes.length >= limit || !hasMore) break
 
-          results.push({ author, content, likes, time })
-        })
+          const response = await this.scrollForMore(page, collector)
+          if (!response) {
+            logger.info('Profile stopped loading new notes')
+            hasMore = false
+            break
+          }
+          batch = toBatch(response)
+        }
 
-        return results
-      })
+        return {
+          notes,
+          hasMore,
+          cursor: hasMore ? encodeUserNotesCursor(userId, offset + notes.length) : undefined
+        }
+      } finally {
+        collector.dispose()
+      }
+    })
+  }
 
-      logger.info(`Successfully extracted ${comments.length} comments`)
-      return comments
-    } catch (error) {
-      logger.error('Error getting note comments:', error)
-      throw error
-    } finally {
-      await this.cleanup()
+  private searchUrl(keywords: string): string {
+    return `${this.baseUrl}/search_result?keyword=${encodeURIComponent(keywords)}`
+  }
+
+  /**
+   * Load a note page, failing with a specific error when the site shows an error page instead
+   */
+  private async openNote(page: Page, url: string): Promise<void> {
+    const response = await this.navigate(page, url)
+    const text = await page.evaluate(() => document.body?.innerText || '')
+    const unavailable = classifyNotePage(
+      { url: page.url(), status: response?.status(), text },
+      noteIdFromUrl(url) || url
+    )
+    if (unavailable) {
+      logger.warn(unavailable.message)
+      throw unavailable
+    }
+  }
+
+  private async readNote(page: Page, url: string): Promise<NoteDetail> {
+    await this.openNote(page, url)
+    const note = await GetNoteDetail(page, this.pageTimeout)
+    note.url = url
+    return note
+  }
+
+  /**
+   * Scroll to the bottom of the page, or of the first element matching container,
+   * until the collector receives another response
+   * @returns The next response, or null if scrolling stopped producing new ones
+   */
+  private async scrollForMore<T>(
+    page: Page,
+    collector: ResponseCollector<T>,
+    attempts: number = 3,
+    container: string[] = []
+  ): Promise<T | null> {
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+      await this.randomDelay(0.5, 1.5)
+      await page.evaluate((selectors) => {
+        const element = selectors.map((selector) => document.querySelector(selector)).find(Boolean)
+        if (element) {
+          element.scrollTop = element.scrollHeight
+        } else {
+          window.scrollTo(0, document.body.scrollHeight)
+        }
+      }, container)
+      const response = await collector.next(5000)
+      if (response) return response
+      logger.info(`No new response after scrolling (attempt ${attempt}/${attempts})`)
+    }
+    return null
+  }
+
+  /**
+   * Close the note overlay opened from the search results, if there is one
+   */
+  private async closeNoteDialog(page: Page): Promise<void> {
+    const selectors = getSelectors().search
+    const closeButton = await queryFirst(page, selectors.closeButton)
+    if (closeButton) {
+      logger.info('Closing note dialog')
+      await closeButton.click()
+
+      // Wait for note dialog to disappear
+      await page.waitForSelector(anyOf(selectors.noteDialog), {
+        state: 'detached',
+        timeout: this.pageTimeout
+      })
     }
   }
 
@@ -276,7 +924,8 @@ export class RedNoteTools {
    * @param max Maximum seconds to wait
    */
   private async randomDelay(min: number, max: number): Promise<void> {
-    const delay = Math.random() * (max - min) + min
+    if (this.delayScale === 0) return
+    const delay = (Math.random() * (max - min) + min) * this.delayScale
     logger.debug(`Adding random delay of ${delay.toFixed(2)} seconds`)
     await new Promise((resolve) => setTimeout(resolve, delay * 1000))
   }
@@ -0,0 +1,230 @@
+import { parseCount } from '../utils/count'
+import { parseDisplayTime } from '../utils/time'
+import { isObject } from './initialState'
+import { Note } from './rednoteTools'
+
+/** Path of the search API the search page calls for every page of results */
+export const SEARCH_API_PATH = '/api/sns/web/v1/search/notes'
+
+/** One entry of the search API's item list, only notes carry a note_card */
+export interface SearchItem {
+  id: string
+  model_type: string
+  xsec_token?: string
+  note_card?: {
+    type?: 'normal' | 'video'
+    display_title?: string
+    user?: {
+      user_id?: string
+      nickname?: string
+      nick_name?: string
+      avatar?: string
+    }
+    interact_info?: {
+      liked_count?: string | number
+      collected_count?: string | number
+      comment_count?: string | number
+      shared_count?: string | number
+    }
+    cover?: {
+      url_default?: string
+      url_pre?: string
+      url?: string
+    }
+    /** Labels shown on the cover, the publish_time one reads like "3天前" */
+    corner_tag_info?: { type?: string; text?: string }[]
+  }
+}
+
+export interface SearchResponse {
+  code?: number
+  success?: boolean
+  msg?: string
+  data?: {
+    has_more?: boolean
+    items?: SearchItem[]
+  }
+}
+
+export type SearchSort = 'general' | 'latest' | 'most_liked' | 'most_commented' | 'most_collected'
+export type SearchNoteType = 'all' | 'video' | 'image'
+export type SearchPublishTime = 'all' | 'day' | 'week' | 'half_year'
+/** 'api' reads the search page's own API responses, 'click' opens every result */
+export type SearchMode = 'api' | 'click'
+
+export const SEARCH_MODES: SearchMode[] = ['api', 'click']
+
+/** Options of the search page's filter panel, unset fields keep the site's default */
+export interface SearchFilters {
+  sort?: SearchSort
+  noteType?: SearchNoteType
+  publishTime?: SearchPublishTime
+}
+
+/** Title of each filter group in the panel and the label of each of its options */
+export const SEARCH_FILTER_LABELS = {
+  sort: {
+    group: '排序依据',
+    options: {
+      general: '综合',
+      latest: '最新',
+      most_liked: '最多点赞',
+      most_commented: '最多评论',
+      most_collected: '最多收藏'
+    }
+  },
+  noteType: {
+    group: '笔记类型',
+    options: {
+      all: '不限',
+      video: '视频',
+      image: '图文'
+    }
+  },
+  publishTime: {
+    group: '发布时间',
+    options: {
+      all: '不限',
+      day: '一天内',
+      week: '一周内',
+      half_year: '半年内'
+    }
+  }
+}
+
+const DEFAULT_FILTERS: Required<SearchFilters> = { sort: 'general', noteType: 'all', publishTime: 'all' }
+
+/**
+ * The filter panel clicks needed for the given filters, as group title and option label,
+ * filters left at the site's default need none
+ */
+export function searchFilterClicks(filters: SearchFilters = {}): { group: string; label: string }[] {
+  const clicks: { group: string; label: string }[] = []
+  for (const key of Object.keys(SEARCH_FILTER_LABELS) as (keyof SearchFilters)[]) {
+    const value = filters[key]
+    if (!value || value === DEFAULT_FILTERS[key]) continue
+    const labels = SEARCH_FILTER_LABELS[key]
+    clicks.push({ group: labels.group, label: (labels.options as Record<string, string>)[value] })
+  }
+  return clicks
+}
+
+/**
+ * Check filter values given as text, e.g. on the command line, against the options the panel offers
+ */
+export function parseSearchFilters(values: Record<keyof SearchFilters, string | undefined>): SearchFilters {
+  const filters: Record<string, string> = {}
+  for (const key of Object.keys(SEARCH_FILTER_LABELS) as (keyof SearchFilters)[]) {
+    const value = values[key]
+    if (value === undefined) continue
+    const options = Object.keys(SEARCH_FILTER_LABELS[key].options)
+    if (!options.includes(value)) {
+      throw new Error(`Unknown ${key} "${value}", use one of: ${options.join(', ')}`)
+    }
+    filters[key] = value
+  }
+  return filters as SearchFilters
+}
+
+export function parseSearchMode(value: string): SearchMode {
+  if (!SEARCH_MODES.includes(value as SearchMode)) {
+    throw new Error(`Unknown search mode "${value}", use one of: ${SEARCH_MODES.join(', ')}`)
+  }
+  return value as SearchMode
+}
+
+/**
+ * Build a Note from a search API item, returns null for entries that are not notes
+ * such as related searches
+ */
+export function mapSearchItem(item: SearchItem, baseUrl: string, now: Date = new Date()): Note | null {
+  const card = item.note_card
+  if (item.model_type !== 'note' || !card || !item.id) {
+    return null
+  }
+
+  const url = new URL(`/explore/${item.id}`, baseUrl)
+  if (item.xsec_token) {
+    url.searchParams.set('xsec_token', item.xsec_token)
+    url.searchParams.set('xsec_source', 'pc_search')
+  }
+
+  const publishTag = card.corner_tag_info?.find((tag) => tag.type === 'publish_time')?.text
+
+  return {
+    id: item.id,
+    type: card.type === 'video' ? 'video' : 'image',
+    title: card.display_title || '',
+    content: '',
+    tags: [],
+    url: url.toString(),
+    cover: card.cover?.url_default || card.cover?.url || card.cover?.url_pre,
+    author: card.user?.nickname || card.user?.nick_name || '',
+    authorId: card.user?.user_id,
+    likes: parseCount(card.interact_info?.liked_count),
+    collects: parseCount(card.interact_info?.collected_count),
+    comments: parseCount(card.interact_info?.comment_count),
+    shares: parseCount(card.interact_info?.shared_count),
+    publishTime: publishTag ? parseDisplayTime(publishTag, now) : undefined,
+    xsecToken: item.xsec_token
+  }
+}
+
+/**
+ * All notes in a search API response, in the order the site shows them
+ */
+export function mapSearchResponse(response: SearchResponse, baseUrl: string, now: Date = new Date()): Note[] {
+  return (response.data?.items || [])
+    .map((item) => mapSearchItem(item, baseUrl, now))
+    .filter((note): note is Note => note !== null)
+}
+
+interface SearchCursor {
+  /** Keywords the cursor belongs to */
+  k: string
+  /** Filters the cursor belongs to, in filterKey form */
+  f?: string
+  /** Number of unique notes already returned */
+  o: number
+}
+
+/**
+ * Stable form of the filters for comparing cursors, defaults are left out
+ */
+function filterKey(filters: SearchFilters = {}): string {
+  return searchFilterClicks(filters)
+    .map((click) => `${click.group}:${click.label}`)
+    .join(',')
+}
+
+/**
+ * Opaque token that lets a later search continue after the notes returned so far
+ */
+export function encodeSearchCursor(keywords: string, offset: number, filters?: SearchFilters): string {
+  const cursor: SearchCursor = { k: keywords, o: offset }
+  const key = filterKey(filters)
+  if (key) cursor.f = key
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url')
+}
+
+/**
+ * Number of notes to skip for a cursor, checking that it was issued for the same keywords and filters
+ */
+export function decodeSearchCursor(cursor: string, keywords: string, filters?: SearchFilters): number {
+  let decoded: unknown
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'))
+  } catch (error) {
+    throw new Error('Invalid search cursor')
+  }
+  if (!isObject(decoded) || typeof decoded.o !== 'number' || decoded.o < 0 || typeof decoded.k !== 'string') {
+    throw new Error('Invalid search cursor')
+  }
+  if (decoded.k !== keywords) {
+    throw new Error(`Search cursor was issued for "${decoded.k}", not "${keywords}"`)
+  }
+  if ((decoded.f || '') !== filterKey(filters)) {
+    throw new Error('Search cursor was issued for different filters')
+  }
+  return decoded.o
+}
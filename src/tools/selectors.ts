@@ -0,0 +1,207 @@
+import fs from 'fs'
+import path from 'path'
+import { ElementHandle, Page } from 'playwright'
+import { getConfigOrDefault } from '../config'
+import logger from '../utils/logger'
+
+/**
+ * Every field maps to an ordered list of CSS selectors, the first one that matches wins.
+ * Bump the version whenever the defaults change so overrides can be compared against it.
+ */
+export interface SelectorProfile {
+  version: string
+  login: {
+    loggedInUser: string[]
+    loginContainer: string[]
+    qrCode: string[]
+  }
+  search: {
+    feeds: string[]
+    feedEnd: string[]
+    filterButton: string[]
+    filterPanel: string[]
+    filterGroup: string[]
+    filterOption: string[]
+    noteItem: string[]
+    noteCover: string[]
+    noteDialog: string[]
+    closeButton: string[]
+    title: string[]
+    content: string[]
+    author: string[]
+    likes: string[]
+    collects: string[]
+    comments: string[]
+    publishTime: string[]
+  }
+  note: {
+    container: string[]
+    media: string[]
+    title: string[]
+    content: string[]
+    tags: string[]
+    author: string[]
+    authorLink: string[]
+    authorAvatar: string[]
+    likes: string[]
+    collects: string[]
+    comments: string[]
+    images: string[]
+    videos: string[]
+    publishTime: string[]
+  }
+  comments: {
+    container: string[]
+    parentComment: string[]
+    showMore: string[]
+  }
+  riskControl: {
+    captcha: string[]
+  }
+}
+
+export type SelectorGroup = Exclude<keyof SelectorProfile, 'version'>
+
+export const DEFAULT_SELECTORS: SelectorProfile = {
+  version: '2025.04',
+  login: {
+    loggedInUser: ['.user.side-bar-component .channel'],
+    loginContainer: ['.login-container'],
+    qrCode: ['.qrcode-img']
+  },
+  search: {
+    feeds: ['.feeds-container'],
+    feedEnd: ['.end-container', '.feeds-end'],
+    filterButton: ['.search-layout .filter', '.filter'],
+    filterPanel: ['.filter-panel'],
+    filterGroup: ['.filter-panel .filters'],
+    filterOption: ['.tags'],
+    noteItem: ['.feeds-container .note-item', '.feeds-container section'],
+    noteCover: ['a.cover.mask.ld', 'a.cover'],
+    noteDialog: ['#noteContainer', '.note-detail-mask .note-container'],
+    closeButton: ['.close-circle', '.close-box'],
+    title: ['#detail-title', '.note-content .title'],
+    content: ['#detail-desc .note-text', '.note-content .desc'],
+    author: ['.author-wrapper .username', '.author-container .username'],
+    likes: ['.engage-bar-style .like-wrapper .count', '.interact-container .like-wrapper .count'],
+    collects: ['.engage-bar-style .collect-wrapper .count', '.interact-container .collect-wrapper .count'],
+    comments: ['.engage-bar-style .chat-wrapper .count', '.interact-container .chat-wrapper .count'],
+    publishTime: ['.bottom-container .date', '.note-content .date']
+  },
+  note: {
+    container: ['.note-container', '#noteContainer'],
+    media: ['.media-container'],
+    title: ['#detail-title', '.title'],
+    content: ['.note-content .note-text span', '#detail-desc .note-text'],
+    tags: ['.note-content .note-text a', '#detail-desc a.tag'],
+    author: ['.author-container .info .username', '.author-wrapper .username'],
+    authorLink: ['.author-container .info a.name', '.author-wrapper a.name', 'a[href*="/user/profile/"]'],
+    authorAvatar: ['.author-container .info .avatar-item', '.author-wrapper .avatar-item'],
+    likes: ['.interact-container .like-wrapper .count', '.engage-bar-style .like-wrapper .count'],
+    collects: ['.interact-container .collect-wrapper .count', '.engage-bar-style .collect-wrapper .count'],
+    comments: ['.interact-container .chat-wrapper .count', '.engage-bar-style .chat-wrapper .count'],
+    images: ['.media-container img'],
+    videos: ['.media-container video'],
+    publishTime: ['.bottom-container .date', '.note-content .date']
+  },
+  comments: {
+    container: ['.note-scroller', '.interaction-container'],
+    parentComment: ['.parent-comment'],
+    showMore: ['.reply-container .show-more', '.show-more']
+  },
+  riskControl: {
+    captcha: ['.red-captcha', '#red-captcha', '.captcha-container', 'iframe[src*="captcha"]']
+  }
+}
+
+/**
+ * Location of the user's selector overrides: paths.selectors, else selectors.json in the data directory
+ */
+export function selectorsPath(): string {
+  const { paths } = getConfigOrDefault()
+  return paths.selectors || path.join(paths.dataDir, 'selectors.json')
+}
+
+let cachedProfile: SelectorProfile | null = null
+
+/**
+ * Merge an override file into the defaults. Each field listed in the file replaces the
+ * default list for that field, everything else keeps its default.
+ */
+export function loadSelectorProfile(filePath: string = selectorsPath()): SelectorProfile {
+  const profile: SelectorProfile = JSON.parse(JSON.stringify(DEFAULT_SELECTORS))
+  if (!fs.existsSync(filePath)) {
+    return profile
+  }
+
+  logger.info(`Loading selector overrides from ${filePath}`)
+  const overrides = JSON.parse(fs.readFileSync(filePath, 'utf-8'))
+  for (const group of Object.keys(overrides) as (SelectorGroup | 'version')[]) {
+    if (group === 'version') {
+      profile.version = String(overrides.version)
+      continue
+    }
+    if (!(group in profile)) {
+      logger.warn(`Ignoring unknown selector group: ${group}`)
+      continue
+    }
+    const groupOverrides: unknown = overrides[group]
+    if (!groupOverrides || typeof groupOverrides !== 'object' || Array.isArray(groupOverrides)) {
+      logger.warn(`Ignoring selector group ${group}, it must be an object of field names to selectors`)
+      continue
+    }
+    const fields = profile[group] as Record<string, string[]>
+    for (const [field, value] of Object.entries(groupOverrides)) {
+      if (!(field in fields)) {
+        logger.warn(`Ignoring unknown selector field: ${group}.${field}`)
+        continue
+      }
+      const list = typeof value === 'string' ? [value] : value
+      if (!Array.isArray(list) || list.some((item) => typeof item !== 'string')) {
+        throw new Error(`Selector override ${group}.${field} must be a string or an array of strings`)
+      }
+      fields[field] = list as string[]
+    }
+  }
+  logger.info(`Using selector profile ${profile.version}`)
+  return profile
+}
+
+/**
+ * The active selector profile, loaded once per process
+ */
+export function getSelectors(): SelectorProfile {
+  if (!cachedProfile) {
+    cachedProfile = loadSelectorProfile()
+  }
+  return cachedProfile
+}
+
+/**
+ * Combine fallbacks into one selector for waiting, it matches as soon as any of them does
+ */
+export function anyOf(selectors: string[]): string {
+  return selectors.join(', ')
+}
+
+/**
+ * All elements matched by the first selector in the list that matches anything
+ */
+export async function queryAll(root: Page | ElementHandle, selectors: string[]): Promise<ElementHandle[]> {
+  for (const selector of selectors) {
+    const elements = await root.$$(selector)
+    if (elements.length > 0) return elements
+  }
+  return []
+}
+
+/**
+ * The first element matched by the selectors, tried in order
+ */
+export async function queryFirst(root: Page | ElementHandle, selectors: string[]): Promise<ElementHandle | null> {
+  for (const selector of selectors) {
+    const element = await root.$(selector)
+    if (element) return element
+  }
+  return null
+}
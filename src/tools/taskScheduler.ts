@@ -0,0 +1,105 @@
+import logger from '../utils/logger'
+import { BusyError, TimeoutError } from '../errors'
+
+export interface SchedulerOptions {
+  /** Maximum number of jobs running at the same time, each job holds one page */
+  concurrency?: number
+  /** Maximum number of jobs waiting for a free slot before new jobs are rejected */
+  maxQueueSize?: number
+  /** Default time budget for a job in milliseconds, measured from when it starts running */
+  timeout?: number
+}
+
+export interface RunOptions {
+  /** Overrides the scheduler's default timeout for this job */
+  timeout?: number
+}
+
+interface QueuedJob {
+  name: string
+  start: () => void
+}
+
+/**
+ * Queues tool calls in front of RedNoteTools so parallel requests never share a page.
+ */
+export class TaskScheduler {
+  private readonly concurrency: number
+  private readonly maxQueueSize: number
+  /** Default time budget for a job in milliseconds */
+  readonly timeout: number
+  private running = 0
+  private queue: QueuedJob[] = []
+
+  constructor(options: SchedulerOptions = {}) {
+    this.concurrency = Math.max(1, options.concurrency ?? 2)
+    this.maxQueueSize = Math.max(0, options.maxQueueSize ?? 10)
+    this.timeout = options.timeout ?? 5 * 60 * 1000
+  }
+
+  get stats(): { running: number; queued: number } {
+    return { running: this.running, queued: this.queue.length }
+  }
+
+  /**
+   * Run a job once a slot is free. Rejects immediately with BusyError when the queue is full,
+   * and with TimeoutError when the job runs longer than its timeout. A timed out job keeps its
+   * slot until it actually settles so the page pool is never oversubscribed.
+   */
+  run<T>(name: string, job: () => Promise<T>, options: RunOptions = {}): Promise<T> {
+    if (this.running >= this.concurrency && this.queue.length >= this.maxQueueSize) {
+      logger.warn(`Rejecting job ${name}: ${this.running} running, ${this.queue.length} queued`)
+      return Promise.reject(
+        new BusyError(`Server is busy: ${this.running} tasks running and ${this.queue.length} queued, try again later`)
+      )
+    }
+
+    const timeout = options.timeout ?? this.timeout
+
+    return new Promise<T>((resolve, reject) => {
+      const start = () => {
+        this.running++
+        logger.info(`Starting job ${name} (${this.running}/${this.concurrency} running)`)
+
+        let settled = false
+        const timer = setTimeout(() => {
+          settled = true
+          logger.error(`Job ${name} timed out after ${timeout}ms`)
+          reject(new TimeoutError(`Task ${name} timed out after ${timeout}ms`))
+        }, timeout)
+
+        Promise.resolve()
+          .then(job)
+          .then(
+            (result) => {
+              if (!settled) resolve(result)
+            },
+            (error) => {
+              if (!settled) reject(error)
+            }
+          )
+          .finally(() => {
+            settled = true
+            clearTimeout(timer)
+            this.running--
+            this.next()
+          })
+      }
+
+      if (this.running < this.concurrency) {
+        start()
+      } else {
+        logger.info(`Queueing job ${name} (${this.queue.length + 1} waiting)`)
+        this.queue.push({ name, start })
+      }
+    })
+  }
+
+  private next(): void {
+    const job = this.queue.shift()
+    if (job) {
+      logger.debug(`Dequeuing job ${job.name}`)
+      job.start()
+    }
+  }
+}
@@ -0,0 +1,230 @@
+import { parseCount } from '../utils/count'
+import { isObject, pick } from './initialState'
+import { Note } from './rednoteTools'
+
+/** Path of the API the profile page calls for every further page of the user's notes */
+export const USER_POSTED_API_PATH = '/api/sns/web/v1/user_posted'
+
+export interface UserProfile {
+  userId: string
+  nickname: string
+  /** The 小红书号 shown on the profile */
+  redId?: string
+  desc: string
+  avatar?: string
+  ipLocation?: string
+  follows?: number
+  fans?: number
+  /** 获赞与收藏 */
+  likesAndCollects?: number
+  /** Labels under the bio such as location, profession or school */
+  tags: string[]
+  url: string
+}
+
+export interface UserNotesResult {
+  notes: Note[]
+  /** Pass back to listUserNotes to get the next notes, absent once hasMore is false */
+  cursor?: string
+  hasMore: boolean
+}
+
+/** Subset of user.userPageData in the profile page's initial state */
+interface StateUserPageData {
+  basicInfo?: {
+    nickname?: string
+    redId?: string
+    desc?: string
+    ipLocation?: string
+    images?: string
+    imageb?: string
+  }
+  // The page writes missing lists as undefined, which comes out of the state script as null
+  interactions?: { type?: string; name?: string; count?: string | number }[] | null
+  tags?: { tagType?: string; name?: string }[] | null
+}
+
+/** One of the user's notes in the profile page's initial state */
+interface StateUserNote {
+  id?: string
+  xsecToken?: string
+  noteCard?: {
+    noteId?: string
+    type?: 'normal' | 'video'
+    displayTitle?: string
+    user?: { userId?: string; nickname?: string; nickName?: string }
+    interactInfo?: { likedCount?: string | number }
+    cover?: { urlDefault?: string; urlPre?: string; url?: string }
+  }
+}
+
+/** One note as returned by the user_posted API */
+export interface UserPostedNote {
+  note_id: string
+  type?: 'normal' | 'video'
+  display_title?: string
+  xsec_token?: string
+  user?: { user_id?: string; nickname?: string; nick_name?: string }
+  interact_info?: { liked_count?: string | number }
+  cover?: { url_default?: string; url_pre?: string; url?: string }
+}
+
+export interface UserPostedResponse {
+  code?: number
+  success?: boolean
+  msg?: string
+  data?: {
+    cursor?: string
+    has_more?: boolean
+    notes?: UserPostedNote[]
+  }
+}
+
+/**
+ * User id from a profile URL such as /user/profile/{id}, or a bare id
+ */
+export function userIdFromUrl(input: string): string | undefined {
+  const value = input.trim()
+  if (/^[0-9a-f]{24}$/i.test(value)) return value
+  return value.match(/\/user\/profile\/([0-9a-zA-Z]+)/)?.[1]
+}
+
+export function userProfileUrl(userId: string, baseUrl: string): string {
+  return new URL(`/user/profile/${userId}`, baseUrl).toString()
+}
+
+/**
+ * Build a UserProfile from the profile page's initial state, returns null when the state has none
+ */
+export function mapUserPageData(state: unknown, userId: string, baseUrl: string): UserProfile | null {
+  const data = pick(state, 'user', 'userPageData')
+  if (!isUserPageData(data)) return null
+
+  const interaction = (type: string) => parseCount(data.interactions?.find((item) => item.type === type)?.count)
+
+  return {
+    userId,
+    nickname: data.basicInfo.nickname || '',
+    redId: data.basicInfo.redId,
+    desc: data.basicInfo.desc || '',
+    avatar: data.basicInfo.imageb || data.basicInfo.images,
+    ipLocation: data.basicInfo.ipLocation,
+    follows: interaction('follows'),
+    fans: interaction('fans'),
+    likesAndCollects: interaction('interaction'),
+    tags: (data.tags || []).map((tag) => tag.name || '').filter(Boolean),
+    url: userProfileUrl(userId, baseUrl)
+  }
+}
+
+function isUserPageData(value: unknown): value is StateUserPageData & Required<Pick<StateUserPageData, 'basicInfo'>> {
+  return (
+    isObject(value) &&
+    isObject(value.basicInfo) &&
+    (value.interactions == null || Array.isArray(value.interactions)) &&
+    (value.tags == null || Array.isArray(value.tags))
+  )
+}
+
+function isStateUserNote(value: unknown): value is StateUserNote {
+  return isObject(value) && (value.noteCard === undefined || isObject(value.noteCard))
+}
+
+function noteUrl(noteId: string, xsecToken: string | undefined, baseUrl: string): string {
+  const url = new URL(`/explore/${noteId}`, baseUrl)
+  if (xsecToken) {
+    url.searchParams.set('xsec_token', xsecToken)
+    url.searchParams.set('xsec_source', 'pc_user')
+  }
+  return url.toString()
+}
+
+/**
+ * The first page of the user's notes embedded in the profile page's initial state,
+ * null when the state does not carry them and the page has to call the API instead
+ */
+export function mapStateUserNotes(state: unknown, baseUrl: string): { notes: Note[]; hasMore: boolean } | null {
+  const pages = pick(state, 'user', 'notes')
+  if (!Array.isArray(pages) || !Array.isArray(pages[0])) return null
+  const items: unknown[] = pages[0]
+
+  const notes = items
+    .filter(isStateUserNote)
+    .map((item): Note | null => {
+      const card = item.noteCard
+      const id = item.id || card?.noteId
+      if (!card || !id) return null
+      const xsecToken = item.xsecToken
+      return {
+        id,
+        type: card.type === 'video' ? 'video' : 'image',
+        title: card.displayTitle || '',
+        content: '',
+        tags: [],
+        url: noteUrl(id, xsecToken, baseUrl),
+        cover: card.cover?.urlDefault || card.cover?.url || card.cover?.urlPre,
+        author: card.user?.nickname || card.user?.nickName || '',
+        authorId: card.user?.userId,
+        likes: parseCount(card.interactInfo?.likedCount),
+        xsecToken
+      }
+    })
+    .filter((note): note is Note => note !== null)
+  const queries = pick(state, 'user', 'noteQueries')
+  return { notes, hasMore: !Array.isArray(queries) || pick(queries[0], 'hasMore') !== false }
+}
+
+/**
+ * All notes in a user_posted API response
+ */
+export function mapUserPostedResponse(response: UserPostedResponse, baseUrl: string): Note[] {
+  return (response.data?.notes || [])
+    .filter((item) => item.note_id)
+    .map((item) => ({
+      id: item.note_id,
+      type: item.type === 'video' ? 'video' : 'image',
+      title: item.display_title || '',
+      content: '',
+      tags: [],
+      url: noteUrl(item.note_id, item.xsec_token, baseUrl),
+      cover: item.cover?.url_default || item.cover?.url || item.cover?.url_pre,
+      author: item.user?.nickname || item.user?.nick_name || '',
+      authorId: item.user?.user_id,
+      likes: parseCount(item.interact_info?.liked_count),
+      xsecToken: item.xsec_token
+    }))
+}
+
+interface UserNotesCursor {
+  /** User the cursor belongs to */
+  u: string
+  /** Number of unique notes already returned */
+  o: number
+}
+
+/**
+ * Opaque token that lets a later call continue after the notes returned so far
+ */
+export function encodeUserNotesCursor(userId: string, offset: number): string {
+  const cursor: UserNotesCursor = { u: userId, o: offset }
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url')
+}
+
+/**
+ * Number of notes to skip for a cursor, checking that it was issued for the same user
+ */
+export function decodeUserNotesCursor(cursor: string, userId: string): number {
+  let decoded: unknown
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'))
+  } catch (error) {
+    throw new Error('Invalid user notes cursor')
+  }
+  if (!isObject(decoded) || typeof decoded.o !== 'number' || decoded.o < 0 || typeof decoded.u !== 'string') {
+    throw new Error('Invalid user notes cursor')
+  }
+  if (decoded.u !== userId) {
+    throw new Error(`User notes cursor was issued for user ${decoded.u}, not ${userId}`)
+  }
+  return decoded.o
+}
@@ -0,0 +1,25 @@
+import { parseCount } from '../count'
+
+describe('parseCount', () => {
+  test.each([
+    ['1234', 1234],
+    ['1,234', 1234],
+    ['1.2万', 12000],
+    ['1.25万', 12500],
+    ['10万+', 100000],
+    ['10w+', 100000],
+    ['3.5W', 35000],
+    ['2k', 2000],
+    ['1.1亿', 110000000],
+    [' 56 ', 56],
+    ['赞', 0],
+    ['评论', 0],
+    [42, 42]
+  ])('%p 应该解析为 %p', (input, expected) => {
+    expect(parseCount(input)).toBe(expected)
+  })
+
+  test.each([[''], ['   '], [null], [undefined], [NaN]])('%p 应该返回 undefined', (input) => {
+    expect(parseCount(input)).toBeUndefined()
+  })
+})
@@ -0,0 +1,52 @@
+import { Column, formatRows, parseExportFormat } from '../exportFormat'
+
+interface Row {
+  title: string
+  tags: string[]
+  likes?: number
+}
+
+const ROWS: Row[] = [
+  { title: '周末去哪儿｜城市公园野餐攻略', tags: ['野餐', '周末'], likes: 12568 },
+  { title: '带上"野餐垫", 水果\n和饮料', tags: [] }
+]
+
+const COLUMNS: Column<Row>[] = [
+  { header: 'title', value: (row) => row.title },
+  { header: 'tags', value: (row) => row.tags },
+  { header: 'likes', value: (row) => row.likes }
+]
+
+describe('formatRows', () => {
+  test('json 和 jsonl 保留全部字段', () => {
+    expect(JSON.parse(formatRows(ROWS, 'json', COLUMNS))).toEqual(ROWS)
+    const lines = formatRows(ROWS, 'jsonl', COLUMNS).trimEnd().split('\n')
+    expect(lines.map((line) => JSON.parse(line))).toEqual(ROWS)
+  })
+
+  test('csv 按列输出并转义逗号、引号和换行', () => {
+    expect(formatRows(ROWS, 'csv', COLUMNS)).toBe(
+      'title,tags,likes\r\n' +
+        '周末去哪儿｜城市公园野餐攻略,野餐 周末,12568\r\n' +
+        '"带上""野餐垫"", 水果\n和饮料",,\r\n'
+    )
+  })
+
+  test('md 输出表格并转义竖线和换行', () => {
+    expect(formatRows([{ title: 'a|b\nc', tags: ['x'] }], 'md', COLUMNS)).toBe(
+      '| title | tags | likes |\n| --- | --- | --- |\n| a\\|b<br>c | x |  |\n'
+    )
+  })
+
+  test('没有结果时 csv 只有表头', () => {
+    expect(formatRows([], 'csv', COLUMNS)).toBe('title,tags,likes\r\n')
+    expect(formatRows([], 'jsonl', COLUMNS)).toBe('')
+  })
+})
+
+describe('parseExportFormat', () => {
+  test('拒绝未知格式', () => {
+    expect(parseExportFormat('md')).toBe('md')
+    expect(() => parseExportFormat('xml')).toThrow('Unknown format "xml", use one of: json, jsonl, csv, md')
+  })
+})
@@ -0,0 +1,15 @@
+import { stripUndefined } from '../object'
+
+describe('stripUndefined', () => {
+  test('去掉值为 undefined 的键，保留 null、0 和空字符串', () => {
+    expect(stripUndefined({ a: undefined, b: null, c: 0, d: '', e: false })).toEqual({ b: null, c: 0, d: '', e: false })
+  })
+
+  test('展开到默认值上时不会覆盖默认值', () => {
+    const defaults = { timeout: 1000, retries: 3 }
+    expect({ ...defaults, ...stripUndefined({ timeout: undefined, retries: 5 }) }).toEqual({
+      timeout: 1000,
+      retries: 5
+    })
+  })
+})
@@ -0,0 +1,26 @@
+import QRCode from 'qrcode'
+import { decodeDataUrl, renderQrCodeForTerminal } from '../qrcode'
+
+describe('qrcode', () => {
+  test('应该把二维码图片重新渲染为终端字符', async () => {
+    const dataUrl = await QRCode.toDataURL('https://www.xiaohongshu.com/login?qr=test')
+    const image = decodeDataUrl(dataUrl)
+    expect(image?.mimeType).toBe('image/png')
+
+    const rendered = await renderQrCodeForTerminal(image!.data)
+    expect(rendered).toBe(
+      await QRCode.toString('https://www.xiaohongshu.com/login?qr=test', { type: 'terminal', small: true })
+    )
+  })
+
+  test('保留 data URL 中的图片类型', () => {
+    expect(decodeDataUrl('data:image/JPEG;base64,/9j/')).toEqual({
+      data: Buffer.from('/9j/', 'base64'),
+      mimeType: 'image/jpeg'
+    })
+  })
+
+  test('普通 URL 不应该被当作 data URL 解码', () => {
+    expect(decodeDataUrl('https://example.com/qrcode.png')).toBeNull()
+  })
+})
@@ -0,0 +1,38 @@
+import { parseDisplayTime } from '../time'
+
+// 2024-10-15 20:00 in China time
+const NOW = new Date('2024-10-15T12:00:00.000Z')
+
+describe('parseDisplayTime', () => {
+  test.each([
+    ['刚刚', '2024-10-15T12:00:00.000Z'],
+    ['30秒前', '2024-10-15T11:59:30.000Z'],
+    ['5分钟前', '2024-10-15T11:55:00.000Z'],
+    ['3小时前', '2024-10-15T09:00:00.000Z'],
+    ['2天前', '2024-10-13T12:00:00.000Z'],
+    ['1周前', '2024-10-08T12:00:00.000Z'],
+    ['今天 08:15', '2024-10-15T00:15:00.000Z'],
+    ['昨天 12:30', '2024-10-14T04:30:00.000Z'],
+    ['前天 23:05', '2024-10-13T15:05:00.000Z'],
+    ['10-12', '2024-10-11T16:00:00.000Z'],
+    ['2023-10-12', '2023-10-11T16:00:00.000Z'],
+    ['3天前 广东', '2024-10-12T12:00:00.000Z'],
+    ['10-12 上海', '2024-10-11T16:00:00.000Z']
+  ])('%p 应该解析为 %p', (input, expected) => {
+    expect(parseDisplayTime(input, NOW)).toBe(expected)
+  })
+
+  test('月初的「昨天」应该跨到上个月', () => {
+    expect(parseDisplayTime('昨天 10:00', new Date('2024-11-01T02:00:00.000Z'))).toBe('2024-10-31T02:00:00.000Z')
+  })
+
+  test('年初看到的月日晚于今天时属于去年', () => {
+    const now = new Date('2025-01-05T04:00:00.000Z')
+    expect(parseDisplayTime('12-28', now)).toBe('2024-12-27T16:00:00.000Z')
+    expect(parseDisplayTime('01-05', now)).toBe('2025-01-04T16:00:00.000Z')
+  })
+
+  test.each([[''], ['编辑于'], ['广东']])('%p 应该返回 undefined', (input) => {
+    expect(parseDisplayTime(input, NOW)).toBeUndefined()
+  })
+})
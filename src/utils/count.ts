@@ -0,0 +1,30 @@
+const UNITS: Record<string, number> = {
+  千: 1000,
+  k: 1000,
+  万: 10000,
+  w: 10000,
+  亿: 100000000
+}
+
+/**
+ * Parse an interaction count as shown by the site, e.g. "1234", "1.2万", "10w+" or "3k"
+ * @param value Raw count, numbers are passed through
+ * @returns The count, 0 for a label shown instead of zero (such as "赞"), undefined when empty
+ */
+export function parseCount(value: string | number | null | undefined): number | undefined {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : undefined
+  }
+  const text = (value ?? '').trim().toLowerCase().replace(/,/g, '')
+  if (text === '') {
+    return undefined
+  }
+
+  const match = text.match(/(\d+(?:\.\d+)?)\s*(千|k|万|w|亿)?\+?/)
+  if (!match) {
+    // The site shows "赞", "收藏" or "评论" instead of a zero count
+    return 0
+  }
+  const multiplier = match[2] ? UNITS[match[2]] : 1
+  return Math.round(Number(match[1]) * multiplier)
+}
@@ -0,0 +1,57 @@
+export type ExportFormat = 'json' | 'jsonl' | 'csv' | 'md'
+
+export const EXPORT_FORMATS: ExportFormat[] = ['json', 'jsonl', 'csv', 'md']
+
+/** One column of a csv or Markdown table */
+export interface Column<T> {
+  header: string
+  value: (row: T) => unknown
+}
+
+/**
+ * Render rows for a file or a pipe. json and jsonl keep every field, csv and md only the given columns.
+ */
+export function formatRows<T>(rows: T[], format: ExportFormat, columns: Column<T>[]): string {
+  switch (format) {
+    case 'json':
+      return `${JSON.stringify(rows, null, 2)}\n`
+    case 'jsonl':
+      return rows.map((row) => `${JSON.stringify(row)}\n`).join('')
+    case 'csv':
+      return [columns.map((column) => column.header), ...rows.map((row) => columns.map((column) => column.value(row)))]
+        .map((cells) => `${cells.map(csvCell).join(',')}\r\n`)
+        .join('')
+    case 'md':
+      return [
+        `| ${columns.map((column) => markdownCell(column.header)).join(' | ')} |`,
+        `| ${columns.map(() => '---').join(' | ')} |`,
+        ...rows.map((row) => `| ${columns.map((column) => markdownCell(column.value(row))).join(' | ')} |`)
+      ]
+        .map((line) => `${line}\n`)
+        .join('')
+    default:
+      throw new Error(`Unknown format "${format}", use one of: ${EXPORT_FORMATS.join(', ')}`)
+  }
+}
+
+export function parseExportFormat(value: string): ExportFormat {
+  if (!EXPORT_FORMATS.includes(value as ExportFormat)) {
+    throw new Error(`Unknown format "${value}", use one of: ${EXPORT_FORMATS.join(', ')}`)
+  }
+  return value as ExportFormat
+}
+
+function cellText(value: unknown): string {
+  if (value === undefined || value === null) return ''
+  if (Array.isArray(value)) return value.join(' ')
+  return String(value)
+}
+
+function csvCell(value: unknown): string {
+  const text = cellText(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function markdownCell(value: unknown): string {
+  return cellText(value).replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>')
+}
@@ -2,34 +2,14 @@ import winston from 'winston';
 import path from 'path';
 import fs from 'fs';
 import 'winston-daily-rotate-file';
-import os from 'os';
+import { getConfigOrDefault } from '../config';
 import archiver from 'archiver';
 
-// Get platform-specific app data directory
-function getAppDataDir(): string {
-  const platform = process.platform;
-  const appName = 'rednote-mcp';
-
-  switch (platform) {
-    case 'win32':
-      // Windows: %APPDATA%\rednote-mcp\logs
-      return path.join(process.env.APPDATA || '', appName, 'logs');
-    case 'darwin':
-      // macOS: ~/Library/Application Support/rednote-mcp/logs
-      return path.join(os.homedir(), 'Library', 'Application Support', appName, 'logs');
-    case 'linux':
-      // Linux: ~/.local/share/rednote-mcp/logs
-      return path.join(os.homedir(), '.local', 'share', appName, 'logs');
-    default:
-      // Fallback to current directory if platform is not recognized
-      return path.join(process.cwd(), 'logs');
-  }
-}
-
 // Constants for log management
-export const LOGS_DIR = getAppDataDir();
-const MAX_LOG_SIZE = 10 * 1024 * 1024; // 10MB
-const MAX_LOG_FILES = 5; // Keep last 5 log files
+const LOGGING = getConfigOrDefault().logging;
+export const LOGS_DIR = LOGGING.dir;
+const MAX_LOG_SIZE = LOGGING.maxSize;
+const MAX_LOG_FILES = LOGGING.maxFiles;
 
 // Create logs directory if it doesn't exist
 if (!fs.existsSync(LOGS_DIR)) {
@@ -38,7 +18,7 @@ if (!fs.existsSync(LOGS_DIR)) {
 
 // Configure logger
 const logger = winston.createLogger({
-  level: 'info',
+  level: LOGGING.level,
   format: winston.format.combine(
     winston.format.timestamp(),
     winston.format.json()
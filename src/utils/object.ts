@@ -0,0 +1,6 @@
+/**
+ * Copy of an options object without the keys set to undefined, so spreading it over defaults keeps them
+ */
+export function stripUndefined<T extends object>(options: T): Partial<T> {
+  return Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined)) as Partial<T>
+}
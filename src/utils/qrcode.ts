@@ -0,0 +1,31 @@
+import jsQR from 'jsqr'
+import { PNG } from 'pngjs'
+import QRCode from 'qrcode'
+
+/**
+ * Decode a QR code PNG and redraw it with block characters so it can be scanned from a terminal
+ * @param image PNG image of the QR code
+ * @returns The QR code as a printable string
+ */
+export async function renderQrCodeForTerminal(image: Buffer): Promise<string> {
+  const png = PNG.sync.read(image)
+  const code = jsQR(new Uint8ClampedArray(png.data), png.width, png.height)
+  if (!code) {
+    throw new Error('Unable to decode QR code image')
+  }
+  return QRCode.toString(code.data, { type: 'terminal', small: true })
+}
+
+export interface DataUrlImage {
+  data: Buffer
+  /** e.g. image/png */
+  mimeType: string
+}
+
+/**
+ * Turn a data URL from an <img> src into the image it holds, returns null for regular URLs
+ */
+export function decodeDataUrl(src: string): DataUrlImage | null {
+  const match = src.match(/^data:(image\/[a-z+]+);base64,(.+)$/i)
+  return match ? { data: Buffer.from(match[2], 'base64'), mimeType: match[1].toLowerCase() } : null
+}
@@ -0,0 +1,63 @@
+// The site shows times in China Standard Time
+const CHINA_OFFSET = 8 * 60 * 60 * 1000
+
+const RELATIVE_UNITS: Record<string, number> = {
+  秒: 1000,
+  分钟: 60 * 1000,
+  小时: 60 * 60 * 1000,
+  天: 24 * 60 * 60 * 1000,
+  周: 7 * 24 * 60 * 60 * 1000
+}
+
+const DAYS_AGO: Record<string, number> = {
+  今天: 0,
+  昨天: 1,
+  前天: 2
+}
+
+function chinaTime(year: number, month: number, day: number, hour: number = 0, minute: number = 0): string {
+  return new Date(Date.UTC(year, month - 1, day, hour, minute) - CHINA_OFFSET).toISOString()
+}
+
+/**
+ * Turn a time as displayed by the site into an ISO 8601 timestamp.
+ * Handles "刚刚", "5分钟前", "3天前", "昨天 12:30", "10-12" and "2023-10-12",
+ * any trailing text such as an IP location is ignored.
+ * @param text Displayed time
+ * @param now Reference time for relative values
+ * @returns The timestamp, or undefined when the text is not a recognised time
+ */
+export function parseDisplayTime(text: string, now: Date = new Date()): string | undefined {
+  const value = text.trim()
+  if (!value) return undefined
+  if (value.startsWith('刚刚')) return now.toISOString()
+
+  const relative = value.match(/^(\d+)\s*(秒|分钟|小时|天|周)前/)
+  if (relative) {
+    return new Date(now.getTime() - Number(relative[1]) * RELATIVE_UNITS[relative[2]]).toISOString()
+  }
+
+  // Calendar fields of "now" in China time
+  const local = new Date(now.getTime() + CHINA_OFFSET)
+  const year = local.getUTCFullYear()
+
+  const dayAndTime = value.match(/^(今天|昨天|前天)\s*(\d{1,2}):(\d{2})/)
+  if (dayAndTime) {
+    const day = local.getUTCDate() - DAYS_AGO[dayAndTime[1]]
+    return chinaTime(year, local.getUTCMonth() + 1, day, Number(dayAndTime[2]), Number(dayAndTime[3]))
+  }
+
+  const fullDate = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/)
+  if (fullDate) {
+    return chinaTime(Number(fullDate[1]), Number(fullDate[2]), Number(fullDate[3]))
+  }
+
+  const monthDay = value.match(/^(\d{1,2})-(\d{1,2})/)
+  if (monthDay) {
+    const date = chinaTime(year, Number(monthDay[1]), Number(monthDay[2]))
+    // Dates without a year are in the past, one after today is from last year
+    return Date.parse(date) > now.getTime() ? chinaTime(year - 1, Number(monthDay[1]), Number(monthDay[2])) : date
+  }
+
+  return undefined
+}